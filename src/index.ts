@@ -5,6 +5,7 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { createEnvGetters } from "./services/env.js";
 import { registerTools } from "./tools/registerTools.js";
 import { registerTaskTools } from "./tools/registerTaskTools.js";
+import { registerStorageTools } from "./tools/registerStorageTools.js";
 import { registerResources } from "./resources/registerResources.js";
 import { registerPrompts } from "./prompts/registerPrompts.js";
 
@@ -23,19 +24,31 @@ async function main() {
 
   // 도구, 리소스, 프롬프트 등록
   registerResources(server, { 
-    getDataDir: envGetters.getDataDir, 
+    getStore: envGetters.getStore, 
     getCustomRulesPath: envGetters.getCustomRulesPath 
   });
   registerPrompts(server, { 
     getCustomRulesPath: envGetters.getCustomRulesPath, 
-    getDataDir: envGetters.getDataDir 
+    getStore: envGetters.getStore,
+    getChecksPath: envGetters.getChecksPath,
   });
   registerTools(server, {
     getProjectRoot: envGetters.getProjectRoot,
     getDataDir: envGetters.getDataDir,
+    getStore: envGetters.getStore,
     getCustomRulesPath: envGetters.getCustomRulesPath,
+    getIgnoreFilePath: envGetters.getIgnoreFilePath,
+    getChecksPath: envGetters.getChecksPath,
+    getVerifyConfigPath: envGetters.getVerifyConfigPath,
+  });
+  registerTaskTools(server, {
+    getProjectRoot: envGetters.getProjectRoot,
+    getStore: envGetters.getStore,
+    getVerifyConfigPath: envGetters.getVerifyConfigPath,
+  });
+  registerStorageTools(server, {
+    getStore: envGetters.getStore,
   });
-  registerTaskTools(server, { getDataDir: envGetters.getDataDir });
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
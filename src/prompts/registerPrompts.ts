@@ -1,7 +1,10 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { readRules } from "../services/rules.js";
+import { loadChecklist, formatChecksForPrompt } from "../services/checks.js";
 import { getTask, listTasks, taskToMarkdown } from "../services/taskStorage.js";
+import { orderTaskQueue } from "../services/taskDependencies.js";
+import type { RecordStore } from "../services/recordStore.js";
 import {
   loadPromptFromTemplate,
   generatePrompt,
@@ -10,7 +13,8 @@ import {
 
 type EnvGetters = {
   getCustomRulesPath: () => string | undefined;
-  getDataDir: () => string;
+  getStore: () => RecordStore;
+  getChecksPath: () => string | undefined;
 };
 
 interface ReviewPromptParams {
@@ -19,6 +23,7 @@ interface ReviewPromptParams {
   diff: string;
   extraFocus: string;
   rules: string;
+  checks: string;
 }
 
 interface TaskExecutePromptParams {
@@ -45,6 +50,8 @@ export async function getReviewPrompt(
       ? `- ${params.extraFocus.trim()}`
       : "- (없음)",
     rules: params.rules?.trim() ? params.rules.trim() : "(rules file is empty)",
+    checks: params.checks,
+    diffScope: "",
   });
 
   return loadPrompt(prompt, "REVIEW");
@@ -87,6 +94,7 @@ export async function getTaskPlanPrompt(
 
 /**
  * Task 상태 문자열 생성
+ * - 진행 중/대기 Task를 의존성 기준 실행 순서(위상 정렬)로 표시
  */
 function buildTaskStatusString(
   inProgressTasks: Awaited<ReturnType<typeof listTasks>>,
@@ -96,27 +104,23 @@ function buildTaskStatusString(
   lines.push("# 현재 Task 상태");
   lines.push("");
 
-  if (inProgressTasks.length > 0) {
-    lines.push("## 🔄 진행 중");
-    for (const t of inProgressTasks) {
-      lines.push(`- [${t.severity}] ${t.id}: ${t.title}`);
-    }
-    lines.push("");
-  }
-
-  if (pendingTasks.length > 0) {
-    lines.push("## ⏳ 대기 중");
-    for (const t of pendingTasks) {
-      lines.push(`- [${t.severity}] ${t.id}: ${t.title}`);
-    }
-    lines.push("");
-  }
-
   if (pendingTasks.length === 0 && inProgressTasks.length === 0) {
     lines.push("(Task가 없습니다)");
     lines.push("");
+    return lines.join("\n");
   }
 
+  lines.push(`🔄 진행 중 ${inProgressTasks.length}개 | ⏳ 대기 중 ${pendingTasks.length}개`);
+  lines.push("");
+  lines.push("## 🧭 실행 순서 (의존성 기준)");
+  lines.push("");
+  orderTaskQueue([...inProgressTasks, ...pendingTasks]).forEach(({ task: t, blocked_by }, i) => {
+    const icon = t.status === "in_progress" ? "🔄" : "⏳";
+    const blocked = blocked_by.length ? ` (선행: ${blocked_by.join(", ")})` : "";
+    lines.push(`${i + 1}. ${icon} [${t.severity}] ${t.id}: ${t.title}${blocked}`);
+  });
+  lines.push("");
+
   return lines.join("\n");
 }
 
@@ -124,12 +128,12 @@ function buildTaskStatusString(
  * Task 컨텐츠 조회 (ID로 조회하거나 pending/in_progress 중 첫 번째)
  */
 async function resolveTaskContent(
-  dataDir: string,
+  store: RecordStore,
   taskId?: string
 ): Promise<string> {
   if (taskId?.trim()) {
     try {
-      const task = await getTask(dataDir, taskId);
+      const task = await getTask(store, taskId);
       return taskToMarkdown(task);
     } catch {
       return `(Task ID '${taskId}'를 찾을 수 없습니다)`;
@@ -137,13 +141,13 @@ async function resolveTaskContent(
   }
 
   // task_id가 없으면 pending 중 첫 번째 task
-  const pendingTasks = await listTasks(dataDir, { status: "pending", limit: 1 });
+  const pendingTasks = await listTasks(store, { status: "pending", limit: 1 });
   if (pendingTasks.length > 0) {
     return taskToMarkdown(pendingTasks[0]);
   }
 
   // in_progress 중 첫 번째
-  const inProgressTasks = await listTasks(dataDir, {
+  const inProgressTasks = await listTasks(store, {
     status: "in_progress",
     limit: 1,
   });
@@ -169,6 +173,7 @@ export function registerPrompts(server: McpServer, env: EnvGetters) {
     },
     async ({ base, head, diff, extra_focus }) => {
       const rules = await readRules(env.getCustomRulesPath());
+      const { checks } = await loadChecklist(env.getChecksPath());
 
       const text = await getReviewPrompt({
         base,
@@ -176,6 +181,7 @@ export function registerPrompts(server: McpServer, env: EnvGetters) {
         diff,
         extraFocus: extra_focus,
         rules,
+        checks: formatChecksForPrompt(checks),
       });
 
       return {
@@ -196,7 +202,7 @@ export function registerPrompts(server: McpServer, env: EnvGetters) {
       task_id: z.string().optional().default(""),
     },
     async ({ task_id }) => {
-      const taskContent = await resolveTaskContent(env.getDataDir(), task_id);
+      const taskContent = await resolveTaskContent(env.getStore(), task_id);
 
       const text = await getTaskExecutePrompt({
         taskContent,
@@ -220,11 +226,11 @@ export function registerPrompts(server: McpServer, env: EnvGetters) {
       goal: z.string().optional().default(""),
     },
     async ({ goal }) => {
-      const pendingTasks = await listTasks(env.getDataDir(), {
+      const pendingTasks = await listTasks(env.getStore(), {
         status: "pending",
         limit: 20,
       });
-      const inProgressTasks = await listTasks(env.getDataDir(), {
+      const inProgressTasks = await listTasks(env.getStore(), {
         status: "in_progress",
         limit: 5,
       });
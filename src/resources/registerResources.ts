@@ -1,10 +1,14 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { readRules, getDefaultRulesPath } from "../services/rules.js";
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { readRules, readRuleSections, getDefaultRulesPath } from "../services/rules.js";
 import { getLatestReview, listReviews } from "../services/storage.js";
+import { formatDiffLabel } from "../services/gitDiff.js";
+import { searchFindings, formatSearchResult, type FindingSearchQuery } from "../services/reviewSearch.js";
+import { computeReviewStats, formatReviewStats } from "../services/reviewStats.js";
 import { listTasks, getTaskStats } from "../services/taskStorage.js";
+import type { RecordStore } from "../services/recordStore.js";
 
 type EnvGetters = {
-  getDataDir: () => string;
+  getStore: () => RecordStore;
   getCustomRulesPath: () => string | undefined;
 };
 
@@ -24,17 +28,71 @@ export function registerResources(server: McpServer, env: EnvGetters) {
     }
   );
 
+  // rules://sections - 규칙 섹션 목록
+  server.resource(
+    "rules-sections",
+    "rules://sections",
+    async (uri) => {
+      const sections = await readRuleSections(env.getCustomRulesPath());
+      const lines: string[] = [];
+      lines.push("# 규칙 섹션 목록");
+      lines.push("");
+      lines.push("`rules://sections/{key}`로 섹션별 규칙을 조회하고, `review.make_prompt`의 `ruleSections`로 선택할 수 있습니다.");
+      lines.push("");
+      for (const sec of sections) {
+        lines.push(`- \`${sec.key}\` | ${sec.title} | ${sec.source} | chars=${sec.content.length}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          text: lines.join("\n")
+        }]
+      };
+    }
+  );
+
+  // rules://sections/{key} - 섹션별 규칙 (예: rules://sections/coupling)
+  server.resource(
+    "rules-section",
+    new ResourceTemplate("rules://sections/{key}", {
+      list: async () => {
+        const sections = await readRuleSections(env.getCustomRulesPath());
+        return {
+          resources: sections.map((sec) => ({
+            uri: `rules://sections/${encodeURIComponent(sec.key)}`,
+            name: `rules-section-${sec.key}`,
+            description: sec.title,
+            mimeType: "text/markdown",
+          })),
+        };
+      },
+    }),
+    async (uri, { key }) => {
+      const sectionKey = decodeURIComponent(String(key));
+      const sections = await readRuleSections(env.getCustomRulesPath());
+      const section = sections.find((sec) => sec.key === sectionKey);
+      return {
+        contents: [{
+          uri: uri.href,
+          text: section
+            ? section.content
+            : `(섹션 '${sectionKey}'이(가) 없습니다. 사용 가능: ${sections.map((sec) => sec.key).join(", ")})`
+        }]
+      };
+    }
+  );
+
   // reviews://index
   server.resource(
     "reviews-index",
     "reviews://index",
     async (uri) => {
-      const list = await listReviews(env.getDataDir(), 50);
+      const list = await listReviews(env.getStore(), 50);
       const lines: string[] = [];
       lines.push(`# 저장된 리뷰 인덱스 (최신순, 최대 50)`);
       lines.push("");
       for (const r of list) {
-        lines.push(`- ${r.id} | ${r.created_at} | ${r.target.base}...${r.target.head} | findings=${r.findings.length}${r.risk ? ` | risk=${r.risk}` : ""}`);
+        lines.push(`- ${r.id} | ${r.created_at} | ${formatDiffLabel(r.target.mode, r.target.base, r.target.head)} | findings=${r.findings.length}${r.risk ? ` | risk=${r.risk}` : ""}`);
       }
       return {
         contents: [{
@@ -50,7 +108,7 @@ export function registerResources(server: McpServer, env: EnvGetters) {
     "reviews-latest",
     "reviews://latest",
     async (uri) => {
-      const r = await getLatestReview(env.getDataDir());
+      const r = await getLatestReview(env.getStore());
       return {
         contents: [{
           uri: uri.href,
@@ -60,13 +118,78 @@ export function registerResources(server: McpServer, env: EnvGetters) {
     }
   );
 
+  // reviews://search/{query} - findings 검색 (예: reviews://search/결합도?file=src%2F**&severity=required)
+  // - 검색어 외 조건은 쿼리 문자열: file, category, severity, since, until, limit
+  server.resource(
+    "reviews-search",
+    new ResourceTemplate("reviews://search/{query}", { list: undefined }),
+    async (uri, { query }) => {
+      const [text, params = ""] = String(query).split("?");
+      const options = new URLSearchParams(params);
+      const search: FindingSearchQuery = {
+        text: decodeURIComponent(text),
+        file: options.get("file") ?? undefined,
+        category: options.get("category") ?? undefined,
+        severity: (options.get("severity") ?? undefined) as FindingSearchQuery["severity"],
+        since: options.get("since") ?? undefined,
+        until: options.get("until") ?? undefined,
+        limit: Number(options.get("limit")) || 50,
+      };
+      let body: string;
+      try {
+        body = formatSearchResult(search, await searchFindings(env.getStore(), search));
+      } catch (err: any) {
+        body = `❌ 검색 실패: ${err?.message ?? String(err)}`;
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          text: body
+        }]
+      };
+    }
+  );
+
+  // reviews://stats - 전체 기간 품질 통계
+  server.resource(
+    "reviews-stats",
+    "reviews://stats",
+    async (uri) => {
+      const stats = await computeReviewStats(env.getStore());
+      return {
+        contents: [{
+          uri: uri.href,
+          text: formatReviewStats(stats)
+        }]
+      };
+    }
+  );
+
+  // reviews://stats/{days} - 최근 N일 품질 통계 (예: reviews://stats/30)
+  server.resource(
+    "reviews-stats-recent",
+    new ResourceTemplate("reviews://stats/{days}", { list: undefined }),
+    async (uri, { days }) => {
+      const n = Number(days);
+      const text = Number.isInteger(n) && n > 0
+        ? formatReviewStats(await computeReviewStats(env.getStore(), { days: n }))
+        : `(일수는 1 이상의 정수여야 합니다: ${days})`;
+      return {
+        contents: [{
+          uri: uri.href,
+          text
+        }]
+      };
+    }
+  );
+
   // tasks://index - Task 전체 목록
   server.resource(
     "tasks-index",
     "tasks://index",
     async (uri) => {
-      const tasks = await listTasks(env.getDataDir(), { limit: 50 });
-      const stats = await getTaskStats(env.getDataDir());
+      const tasks = await listTasks(env.getStore(), { limit: 50 });
+      const stats = await getTaskStats(env.getStore());
       
       const lines: string[] = [];
       lines.push(`# Task 인덱스 (최신순, 최대 50)`);
@@ -99,7 +222,7 @@ export function registerResources(server: McpServer, env: EnvGetters) {
     "tasks-pending",
     "tasks://pending",
     async (uri) => {
-      const tasks = await listTasks(env.getDataDir(), { status: "pending", limit: 50 });
+      const tasks = await listTasks(env.getStore(), { status: "pending", limit: 50 });
       
       const lines: string[] = [];
       lines.push(`# ⏳ Pending Tasks (${tasks.length}개)`);
@@ -129,7 +252,7 @@ export function registerResources(server: McpServer, env: EnvGetters) {
     "tasks-in-progress",
     "tasks://in_progress",
     async (uri) => {
-      const tasks = await listTasks(env.getDataDir(), { status: "in_progress", limit: 50 });
+      const tasks = await listTasks(env.getStore(), { status: "in_progress", limit: 50 });
       
       const lines: string[] = [];
       lines.push(`# 🔄 In-Progress Tasks (${tasks.length}개)`);
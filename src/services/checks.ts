@@ -0,0 +1,154 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { parseYamlList, type YamlListItem } from "./yamlList.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// MCP 서버 내장 체크리스트
+const DEFAULT_CHECKS_PATH = path.resolve(__dirname, "../../templates/checks.yml");
+
+export type CheckSeverity = "high" | "medium" | "low";
+
+export type CheckResultValue = "pass" | "fail" | "na";
+
+export type ChecklistItem = {
+  id: string;
+  title_ko: string;
+  severity: CheckSeverity;
+  /** 체크 출처 (기본 체크리스트 / 프로젝트 오버라이드) */
+  source: "default" | "project";
+};
+
+// 리뷰 JSON의 체크 결과 (저장 시 title_ko/severity를 채워서 보관)
+export type CheckResult = {
+  id: string;
+  result: CheckResultValue;
+  note_ko?: string;
+  title_ko?: string;
+  severity?: CheckSeverity;
+};
+
+const CHECK_SEVERITIES: CheckSeverity[] = ["high", "medium", "low"];
+
+type RawCheck = YamlListItem;
+
+/**
+ * checks.yml 파싱 (`checks:` 아래의 목록)
+ */
+export function parseChecksYaml(text: string): RawCheck[] {
+  return parseYamlList(text, "checks");
+}
+
+/**
+ * 원시 체크 항목 검증 → ChecklistItem 또는 에러 메시지
+ */
+function validateRawCheck(raw: RawCheck, index: number, source: ChecklistItem["source"]): ChecklistItem | string {
+  const where = `${source === "default" ? "기본" : "프로젝트"} 체크리스트 #${index + 1}`;
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(id)) {
+    return `${where}: id가 없거나 형식이 잘못되었습니다 (영문 소문자/숫자/-/_): ${String(raw.id ?? "")}`;
+  }
+  const title = typeof raw.title_ko === "string" ? raw.title_ko.trim() : "";
+  if (!title) {
+    return `${where} (${id}): title_ko가 필요합니다.`;
+  }
+  const severity = raw.severity ?? "medium";
+  if (typeof severity !== "string" || !CHECK_SEVERITIES.includes(severity as CheckSeverity)) {
+    return `${where} (${id}): severity는 ${CHECK_SEVERITIES.join("/")} 중 하나여야 합니다: ${String(severity)}`;
+  }
+  return { id, title_ko: title, severity: severity as CheckSeverity, source };
+}
+
+async function readFileOrEmpty(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 체크리스트 로드 (기본 + 프로젝트 오버라이드)
+ * - 같은 id는 프로젝트 항목이 기본 항목을 대체
+ * - `enabled: false`인 프로젝트 항목은 해당 id를 체크리스트에서 제거
+ * - 검증에 실패한 항목은 건너뛰고 errors에 기록
+ */
+export async function loadChecklist(projectChecksPath?: string): Promise<{ checks: ChecklistItem[]; errors: string[] }> {
+  const errors: string[] = [];
+  const merged = new Map<string, ChecklistItem>();
+
+  const sources: Array<{ source: ChecklistItem["source"]; text: string }> = [
+    { source: "default", text: await readFileOrEmpty(DEFAULT_CHECKS_PATH) },
+    { source: "project", text: projectChecksPath ? await readFileOrEmpty(projectChecksPath) : "" },
+  ];
+
+  for (const { source, text } of sources) {
+    const seen = new Set<string>();
+    parseChecksYaml(text).forEach((raw, index) => {
+      if (source === "project" && raw.enabled === false && typeof raw.id === "string") {
+        merged.delete(raw.id.trim());
+        return;
+      }
+      const item = validateRawCheck(raw, index, source);
+      if (typeof item === "string") {
+        errors.push(item);
+        return;
+      }
+      if (seen.has(item.id)) {
+        errors.push(`${source === "default" ? "기본" : "프로젝트"} 체크리스트: 중복된 id (${item.id})`);
+        return;
+      }
+      seen.add(item.id);
+      merged.set(item.id, item);
+    });
+  }
+
+  return { checks: [...merged.values()], errors };
+}
+
+/**
+ * 리뷰 프롬프트에 넣을 필수 체크 목록
+ */
+export function formatChecksForPrompt(checks: ChecklistItem[]): string {
+  if (!checks.length) return "(체크리스트 없음)";
+  const lines: string[] = [];
+  lines.push("아래 항목을 **모두** 점검하고 `check_results`에 항목별 결과(pass | fail | na)를 기록하라.");
+  lines.push("fail인 항목은 관련 finding을 반드시 작성하고, na는 이번 변경과 무관한 경우에만 사용한다.");
+  lines.push("");
+  for (const c of checks) {
+    lines.push(`- \`${c.id}\` (${c.severity}): ${c.title_ko}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 저장할 체크 결과 정리
+ * - 체크리스트의 title_ko/severity를 채움
+ * - 누락된 체크(skipped)와 체크리스트에 없는 id(unknown) 보고
+ */
+export function reconcileCheckResults(
+  checks: ChecklistItem[],
+  results: Array<{ id: string; result: CheckResultValue; note_ko?: string }>
+): { results: CheckResult[]; skipped: ChecklistItem[]; unknown: string[] } {
+  const byId = new Map(checks.map((c) => [c.id, c]));
+  const answered = new Set(results.map((r) => r.id));
+
+  return {
+    results: results.map((r) => {
+      const check = byId.get(r.id);
+      return check ? { ...r, title_ko: check.title_ko, severity: check.severity } : { ...r };
+    }),
+    skipped: checks.filter((c) => !answered.has(c.id)),
+    unknown: results.filter((r) => !byId.has(r.id)).map((r) => r.id),
+  };
+}
+
+/**
+ * 기본 체크리스트 경로 반환 (디버깅용)
+ */
+export function getDefaultChecksPath(): string {
+  return DEFAULT_CHECKS_PATH;
+}
@@ -0,0 +1,222 @@
+import { getDiffFilePath, splitFileHeader, type DiffFile } from "./diffParser.js";
+
+/**
+ * 리뷰 프롬프트 한 파트에 들어갈 diff 묶음
+ */
+export type DiffChunk = {
+  /** 1부터 시작하는 파트 번호 */
+  index: number;
+  total: number;
+  /** 이 파트에 포함된 파일 경로 (헌크 단위로 나뉜 파일은 다른 파트에도 포함될 수 있음) */
+  files: string[];
+  diff: string;
+  /** 예산 때문에 이 파트에 다 넣지 못하고 빠진 내용 (리뷰어 안내용) */
+  omitted: string[];
+};
+
+type DiffPiece = {
+  path: string;
+  text: string;
+  omitted?: string[];
+};
+
+type HunkPart = { text: string; omitted: string[] };
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/** 헌크 헤더의 시작 라인 (라인 수가 0이면 git 관례대로 "그 앞 라인") */
+function formatHunkRange(start: number, count: number): string {
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * 예산보다 큰 헌크를 라인 경계에서 나눔 (조각마다 시작 라인을 맞춘 @@ 헤더를 다시 붙임)
+ * - 라인 하나가 예산보다 크면 그 라인만 잘라내고 omitted에 기록
+ */
+function splitOversizedHunk(hunk: string, room: number, path: string): HunkPart[] {
+  const [headerLine, ...body] = hunk.split("\n");
+  const match = headerLine.match(HUNK_HEADER_RE);
+  if (!match) {
+    return [{
+      text: `${hunk.slice(0, Math.max(0, room - 40))}\n...(hunk truncated)`,
+      omitted: [`\`${path}\`: 헤더를 해석할 수 없는 헌크의 뒷부분 ${hunk.length - room + 40}자`],
+    }];
+  }
+
+  const section = match[5];
+  // 다음에 올 old/new 라인 번호 (라인 수 0인 헌크의 시작 값은 "그 뒤"를 뜻함)
+  let oldLine = Number(match[1]) + (match[2] === "0" ? 1 : 0);
+  let newLine = Number(match[3]) + (match[4] === "0" ? 1 : 0);
+  // 헤더 길이 여유 (라인 번호 자릿수가 늘어나도 예산을 넘지 않도록)
+  const bodyRoom = Math.max(1, room - headerLine.length - 20);
+
+  const parts: HunkPart[] = [];
+  let omitted: string[] = [];
+  let lines: string[] = [];
+  let size = 0;
+  let start = { old: oldLine, new: newLine };
+  let count = { old: 0, new: 0 };
+
+  const flush = () => {
+    if (!lines.length) return;
+    const header = `@@ -${formatHunkRange(start.old, count.old)} +${formatHunkRange(start.new, count.new)} @@${section}`;
+    parts.push({ text: [header, ...lines].join("\n"), omitted });
+    lines = [];
+    omitted = [];
+    size = 0;
+    start = { old: oldLine, new: newLine };
+    count = { old: 0, new: 0 };
+  };
+
+  for (const raw of body) {
+    const line = raw.length + 1 > bodyRoom ? `${raw.slice(0, Math.max(1, bodyRoom - 40))} ...(line truncated)` : raw;
+    if (lines.length && size + line.length + 1 > bodyRoom) flush();
+    if (line !== raw) {
+      omitted.push(`\`${path}\`: ${newLine}번 라인 근처의 긴 라인 뒷부분 ${raw.length - line.length}자`);
+    }
+    lines.push(line);
+    size += line.length + 1;
+
+    const type = line[0];
+    if (type === " " || type === "-") {
+      count.old++;
+      oldLine++;
+    }
+    if (type === " " || type === "+") {
+      count.new++;
+      newLine++;
+    }
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * 예산보다 큰 파일은 헌크 경계에서 나눔 (각 조각에 파일 헤더를 반복)
+ * - 헌크 하나가 예산보다 크면 라인 경계에서 다시 나눠 이어지는 파트에 배치
+ * - 헌크가 없는 파일(바이너리, 모드 변경 등)은 예산만큼만 넣고 나머지는 omitted에 기록
+ */
+function splitOversizedFile(file: DiffFile, maxChars: number): DiffPiece[] {
+  const path = getDiffFilePath(file);
+  const { header, hunks } = splitFileHeader(file.raw);
+  if (!hunks.length) {
+    return [{
+      path,
+      text: file.raw.slice(0, maxChars),
+      omitted: [`\`${path}\`: 헌크 없는 diff(바이너리/모드 변경 등) ${file.raw.length}자 중 ${maxChars}자만 포함`],
+    }];
+  }
+
+  const pieces: DiffPiece[] = [];
+  let body: string[] = [];
+  let omitted: string[] = [];
+  let size = header.length;
+
+  const flush = () => {
+    if (!body.length) return;
+    pieces.push({ path, text: [header, ...body].join("\n"), ...(omitted.length ? { omitted } : {}) });
+    body = [];
+    omitted = [];
+    size = header.length;
+  };
+
+  const room = maxChars - header.length - 1;
+  for (const hunk of hunks) {
+    const parts = hunk.length > room ? splitOversizedHunk(hunk, room, path) : [{ text: hunk, omitted: [] }];
+    for (const part of parts) {
+      if (size + part.text.length + 1 > maxChars) flush();
+      body.push(part.text);
+      omitted.push(...part.omitted);
+      size += part.text.length + 1;
+    }
+  }
+  flush();
+
+  return pieces;
+}
+
+/**
+ * 파일 경계 기준으로 diff를 여러 파트로 분할
+ * - 파일은 가능한 한 통째로 한 파트에 넣음
+ * - 한 파일이 예산을 넘는 경우에만 헌크 단위로 나눔
+ */
+export function chunkDiffFiles(files: DiffFile[], maxChars: number): DiffChunk[] {
+  const pieces: DiffPiece[] = [];
+  for (const file of files) {
+    if (file.raw.length > maxChars) {
+      pieces.push(...splitOversizedFile(file, maxChars));
+    } else {
+      pieces.push({ path: getDiffFilePath(file), text: file.raw });
+    }
+  }
+
+  const groups: DiffPiece[][] = [];
+  let current: DiffPiece[] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    if (current.length && size + piece.text.length + 1 > maxChars) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(piece);
+    size += piece.text.length + 1;
+  }
+  if (current.length) groups.push(current);
+
+  return groups.map((group, i) => ({
+    index: i + 1,
+    total: groups.length,
+    files: [...new Set(group.map((p) => p.path))],
+    diff: group.map((p) => p.text).join("\n"),
+    omitted: group.flatMap((p) => p.omitted ?? []),
+  }));
+}
+
+/**
+ * 파트 안내 문구 생성 (포함 파일 / 다른 파트에 있는 파일)
+ * - 헌크 단위로 나뉜 파일은 이 파트 목록에만 두고, 함께 나뉜 파트 번호를 표시
+ */
+export function describeChunk(chunk: DiffChunk, chunks: DiffChunk[]): string {
+  const lines: string[] = [];
+  lines.push(`> 📦 분할 리뷰 파트 **${chunk.index}/${chunk.total}**`);
+  lines.push(">");
+  lines.push("> 이 파트에 포함된 파일:");
+  for (const f of chunk.files) {
+    const sharedWith = chunks
+      .filter((other) => other.index !== chunk.index && other.files.includes(f))
+      .map((other) => other.index);
+    lines.push(
+      sharedWith.length
+        ? `> - \`${f}\` (일부 헌크, 나머지는 파트 ${sharedWith.join(", ")}: 이 파트에 있는 헌크만 리뷰)`
+        : `> - \`${f}\``
+    );
+  }
+
+  // 다른 파트에만 있는 파일 → 파트 번호 (나뉜 파일은 한 줄로)
+  const elsewhereParts = new Map<string, number[]>();
+  for (const other of chunks) {
+    if (other.index === chunk.index) continue;
+    for (const f of other.files) {
+      if (chunk.files.includes(f)) continue;
+      elsewhereParts.set(f, [...(elsewhereParts.get(f) ?? []), other.index]);
+    }
+  }
+  const elsewhere = [...elsewhereParts].map(([f, parts]) => `> - \`${f}\` (파트 ${parts.join(", ")})`);
+  if (elsewhere.length) {
+    lines.push(">");
+    lines.push("> 다른 파트에서 리뷰할 파일 (이 파트에서는 findings 작성 금지):");
+    lines.push(...elsewhere);
+  }
+
+  if (chunk.omitted.length) {
+    lines.push(">");
+    lines.push("> ⚠️ 예산을 넘어 이 파트에서 빠진 내용 (필요하면 원본 diff에서 직접 확인):");
+    lines.push(...chunk.omitted.map((o) => `> - ${o}`));
+  }
+
+  lines.push(">");
+  lines.push("> 모든 파트의 리뷰가 끝나면 findings를 하나로 합치고 severity 순으로 다시 정렬해 `review.save`로 한 번에 저장하라.");
+  return lines.join("\n");
+}
@@ -0,0 +1,144 @@
+import fs from "node:fs/promises";
+
+import { getDiffFilePath, type DiffFile } from "./diffParser.js";
+import { findMatchingGlob } from "./glob.js";
+
+/**
+ * 리뷰에 의미 없는 생성/잠금 파일 (기본 무시 목록)
+ * - 프로젝트 ignore 파일에서 `!패턴`으로 다시 포함시킬 수 있음
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lockb",
+  "*.snap",
+  "__snapshots__/",
+  "*.svg",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "**/generated/**",
+  "**/__generated__/**",
+  "*.generated.*",
+];
+
+export type DiffFilterOptions = {
+  /** 지정시 이 패턴 중 하나에 매칭되는 파일만 포함 */
+  include?: string[];
+  /** 항상 제외할 패턴 (도구 파라미터) */
+  exclude?: string[];
+  /** 프로젝트 ignore 파일 내용 (.review/ignore) */
+  projectIgnore?: string;
+  /** 기본 무시 목록 사용 여부 (기본값: true) */
+  useDefaultIgnores?: boolean;
+};
+
+export type ExcludedDiffFile = {
+  path: string;
+  reason: string;
+};
+
+/**
+ * 프로젝트 ignore 파일 읽기 (없으면 빈 문자열)
+ */
+export async function readProjectIgnore(ignoreFilePath?: string): Promise<string> {
+  if (!ignoreFilePath) return "";
+  try {
+    return await fs.readFile(ignoreFilePath, "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * ignore 파일 파싱 (# 주석, 빈 줄 무시, `!`로 시작하면 다시 포함)
+ */
+export function parseIgnoreFile(content: string): { ignore: string[]; unignore: string[] } {
+  const ignore: string[] = [];
+  const unignore: string[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    if (line.startsWith("!")) {
+      unignore.push(line.slice(1).trim());
+    } else {
+      ignore.push(line);
+    }
+  }
+  return { ignore, unignore };
+}
+
+/**
+ * diff 파일 목록에 include/exclude/ignore 적용
+ * - 우선순위: exclude 파라미터 > include 파라미터 > 프로젝트 ignore > 기본 무시 목록
+ * - include에 명시적으로 매칭된 파일은 프로젝트/기본 무시 목록을 무시하고 포함
+ */
+export function filterDiffFiles(
+  files: DiffFile[],
+  options: DiffFilterOptions
+): { files: DiffFile[]; excluded: ExcludedDiffFile[] } {
+  const include = options.include?.filter(Boolean) ?? [];
+  const exclude = options.exclude?.filter(Boolean) ?? [];
+  const project = parseIgnoreFile(options.projectIgnore ?? "");
+  const defaults = options.useDefaultIgnores === false ? [] : DEFAULT_IGNORE_PATTERNS;
+
+  const kept: DiffFile[] = [];
+  const excluded: ExcludedDiffFile[] = [];
+
+  for (const file of files) {
+    const path = getDiffFilePath(file);
+
+    const excludeHit = findMatchingGlob(path, exclude);
+    if (excludeHit) {
+      excluded.push({ path, reason: `exclude 파라미터 (\`${excludeHit}\`)` });
+      continue;
+    }
+
+    if (include.length) {
+      if (findMatchingGlob(path, include)) {
+        kept.push(file);
+      } else {
+        excluded.push({ path, reason: "include 패턴에 해당하지 않음" });
+      }
+      continue;
+    }
+
+    if (!findMatchingGlob(path, project.unignore)) {
+      const projectHit = findMatchingGlob(path, project.ignore);
+      if (projectHit) {
+        excluded.push({ path, reason: `프로젝트 ignore 파일 (\`${projectHit}\`)` });
+        continue;
+      }
+      const defaultHit = findMatchingGlob(path, defaults);
+      if (defaultHit) {
+        excluded.push({ path, reason: `기본 무시 목록 (\`${defaultHit}\`)` });
+        continue;
+      }
+    }
+
+    kept.push(file);
+  }
+
+  return { files: kept, excluded };
+}
+
+/**
+ * 필터링된 파일들로 raw diff 텍스트 재구성
+ */
+export function joinDiffFiles(files: DiffFile[]): string {
+  return files.map((f) => f.raw).join("\n");
+}
+
+/**
+ * 제외된 파일 안내 문구 (프롬프트/도구 출력용)
+ */
+export function describeExcludedFiles(excluded: ExcludedDiffFile[]): string {
+  if (!excluded.length) return "";
+  const lines: string[] = [];
+  lines.push(`> 🚫 리뷰에서 제외된 파일 ${excluded.length}개 (이 파일들에 대해서는 findings를 작성하지 마라):`);
+  for (const e of excluded) {
+    lines.push(`> - \`${e.path}\` — ${e.reason}`);
+  }
+  return lines.join("\n");
+}
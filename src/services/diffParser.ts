@@ -0,0 +1,313 @@
+/**
+ * unified diff(git diff 출력) 파서
+ *
+ * getGitDiff의 raw 문자열을 파일/헌크/라인 단위의 구조화된 모델로 변환합니다.
+ * - finding 위치 검증, 청크 분할, PR 코멘트 변환 등에서 정규식 스크래핑 대신 사용
+ */
+
+export type DiffFileStatus = "added" | "modified" | "deleted" | "renamed" | "binary";
+
+export type DiffLineType = "context" | "add" | "del";
+
+export type DiffLine = {
+  type: DiffLineType;
+  content: string;
+  /** 변경 전 파일 기준 라인 번호 (add 라인은 없음) */
+  oldLine?: number;
+  /** 변경 후 파일 기준 라인 번호 (del 라인은 없음) */
+  newLine?: number;
+  /** 파일 diff 내 위치 (첫 @@ 헤더 바로 아래 라인이 1, GitHub diff position과 동일) */
+  position: number;
+};
+
+export type DiffHunk = {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** @@ 헤더 뒤에 붙는 함수/섹션 이름 (있는 경우) */
+  section?: string;
+  lines: DiffLine[];
+};
+
+/** 변경 후 라인 번호 → 헌크 위치 */
+export type DiffLinePosition = {
+  hunkIndex: number;
+  position: number;
+  type: Exclude<DiffLineType, "del">;
+};
+
+export type DiffFile = {
+  status: DiffFileStatus;
+  /** 변경 전 경로 (추가된 파일은 null) */
+  oldPath: string | null;
+  /** 변경 후 경로 (삭제된 파일은 null) */
+  newPath: string | null;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+  /** 변경 후 파일의 라인 번호 → 헌크 위치 (context + add 라인만 포함) */
+  newLineMap: Record<number, DiffLinePosition>;
+  /** 이 파일에 해당하는 raw diff 텍스트 (diff --git 헤더부터) */
+  raw: string;
+};
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * git이 따옴표로 감싼 경로("...\354\225\210...")를 원래 문자열로 복원
+ * core.quotePath 기본값에서는 한글 파일명이 8진수 이스케이프로 출력됨
+ */
+function unquoteGitPath(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith("\"") || !trimmed.endsWith("\"")) {
+    return trimmed;
+  }
+
+  const body = trimmed.slice(1, -1);
+  const bytes: number[] = [];
+  const simpleEscapes: Record<string, string> = { n: "\n", t: "\t", "\"": "\"", "\\": "\\", a: "\x07", b: "\b", f: "\f", r: "\r", v: "\v" };
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch !== "\\") {
+      bytes.push(...Buffer.from(ch, "utf-8"));
+      continue;
+    }
+    const next = body[i + 1];
+    if (/[0-7]/.test(next ?? "")) {
+      const oct = body.slice(i + 1, i + 4);
+      bytes.push(parseInt(oct, 8));
+      i += 3;
+    } else {
+      bytes.push(...Buffer.from(simpleEscapes[next] ?? next ?? "", "utf-8"));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/**
+ * "--- a/path" / "+++ b/path" 라인에서 경로 추출 (/dev/null이면 null)
+ */
+function parseMarkerPath(line: string): string | null {
+  const value = unquoteGitPath(line.slice(4).replace(/\t.*$/, ""));
+  if (value === "/dev/null") return null;
+  return value.replace(/^[ab]\//, "");
+}
+
+/**
+ * "diff --git a/x b/y" 헤더에서 경로 추출 (---/+++ 라인이 없는 바이너리/rename-only 대비)
+ */
+function parseGitHeaderPaths(line: string): { oldPath: string; newPath: string } | null {
+  const rest = line.slice("diff --git ".length);
+
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  if (quoted) {
+    return {
+      oldPath: unquoteGitPath(quoted[1]).replace(/^a\//, ""),
+      newPath: unquoteGitPath(quoted[2]).replace(/^b\//, ""),
+    };
+  }
+
+  // 공백이 포함된 경로: "a/foo bar b/foo bar" → 양쪽이 같은 경로라고 가정하고 반으로 나눔
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === " ") {
+    return {
+      oldPath: rest.slice(0, half).replace(/^a\//, ""),
+      newPath: rest.slice(half + 1).replace(/^b\//, ""),
+    };
+  }
+  return null;
+}
+
+function createEmptyFile(raw: string): DiffFile {
+  return {
+    status: "modified",
+    oldPath: null,
+    newPath: null,
+    additions: 0,
+    deletions: 0,
+    hunks: [],
+    newLineMap: {},
+    raw,
+  };
+}
+
+/**
+ * 파일 하나 분량의 diff 텍스트를 DiffFile로 변환
+ */
+function parseFileChunk(chunk: string): DiffFile {
+  const file = createEmptyFile(chunk);
+  const lines = chunk.split("\n");
+
+  let isNew = false;
+  let isDeleted = false;
+  let isRenamed = false;
+  let isBinary = false;
+  let renameFrom: string | null = null;
+  let renameTo: string | null = null;
+  let headerPaths: { oldPath: string; newPath: string } | null = null;
+  let markerOld: string | null | undefined;
+  let markerNew: string | null | undefined;
+
+  let hunk: DiffHunk | null = null;
+  let oldCursor = 0;
+  let newCursor = 0;
+  let position = 0;
+
+  for (const line of lines) {
+    if (hunk === null) {
+      if (line.startsWith("diff --git ")) {
+        headerPaths = parseGitHeaderPaths(line);
+      } else if (line.startsWith("new file mode")) {
+        isNew = true;
+      } else if (line.startsWith("deleted file mode")) {
+        isDeleted = true;
+      } else if (line.startsWith("rename from ")) {
+        isRenamed = true;
+        renameFrom = unquoteGitPath(line.slice("rename from ".length));
+      } else if (line.startsWith("rename to ")) {
+        isRenamed = true;
+        renameTo = unquoteGitPath(line.slice("rename to ".length));
+      } else if (line.startsWith("Binary files ") || line.startsWith("GIT binary patch")) {
+        isBinary = true;
+      } else if (line.startsWith("--- ")) {
+        markerOld = parseMarkerPath(line);
+      } else if (line.startsWith("+++ ")) {
+        markerNew = parseMarkerPath(line);
+      }
+    }
+
+    const header = line.match(HUNK_HEADER_RE);
+    if (header) {
+      // 첫 헌크 헤더는 position 0, 이후 헌크 헤더는 한 줄로 계산 (GitHub 규칙)
+      if (hunk !== null) position += 1;
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        section: header[5]?.trim() || undefined,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldCursor = hunk.oldStart;
+      newCursor = hunk.newStart;
+      continue;
+    }
+
+    if (hunk === null) continue;
+
+    const marker = line[0];
+    if (marker === "\\") {
+      // "\ No newline at end of file"도 diff 상의 한 줄로 계산
+      position += 1;
+      continue;
+    }
+    if (marker !== " " && marker !== "+" && marker !== "-") {
+      continue;
+    }
+
+    position += 1;
+    const hunkIndex = file.hunks.length - 1;
+    const content = line.slice(1);
+
+    if (marker === "+") {
+      hunk.lines.push({ type: "add", content, newLine: newCursor, position });
+      file.newLineMap[newCursor] = { hunkIndex, position, type: "add" };
+      file.additions += 1;
+      newCursor += 1;
+    } else if (marker === "-") {
+      hunk.lines.push({ type: "del", content, oldLine: oldCursor, position });
+      file.deletions += 1;
+      oldCursor += 1;
+    } else {
+      hunk.lines.push({ type: "context", content, oldLine: oldCursor, newLine: newCursor, position });
+      file.newLineMap[newCursor] = { hunkIndex, position, type: "context" };
+      oldCursor += 1;
+      newCursor += 1;
+    }
+  }
+
+  file.oldPath = renameFrom ?? (markerOld !== undefined ? markerOld : headerPaths?.oldPath ?? null);
+  file.newPath = renameTo ?? (markerNew !== undefined ? markerNew : headerPaths?.newPath ?? null);
+  if (isNew) file.oldPath = null;
+  if (isDeleted) file.newPath = null;
+
+  if (isBinary) {
+    file.status = "binary";
+  } else if (isNew) {
+    file.status = "added";
+  } else if (isDeleted) {
+    file.status = "deleted";
+  } else if (isRenamed) {
+    file.status = "renamed";
+  } else {
+    file.status = "modified";
+  }
+
+  return file;
+}
+
+/**
+ * git diff 출력 전체를 파일 단위 모델로 파싱
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  if (!diff.trim()) return [];
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  for (const line of diff.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.startsWith("diff --git ") && current.length) {
+      chunks.push(current.join("\n"));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length) chunks.push(current.join("\n"));
+
+  return chunks
+    .filter((chunk) => chunk.startsWith("diff --git "))
+    .map((chunk) => parseFileChunk(chunk.trimEnd()));
+}
+
+/**
+ * 파일 헤더(diff --git ~ +++ 라인)와 헌크 본문을 분리
+ */
+export function splitFileHeader(raw: string): { header: string; hunks: string[] } {
+  const lines = raw.split("\n");
+  const firstHunk = lines.findIndex((line) => line.startsWith("@@ "));
+  if (firstHunk < 0) {
+    return { header: raw, hunks: [] };
+  }
+
+  const header = lines.slice(0, firstHunk).join("\n");
+  const hunks: string[] = [];
+  let current: string[] = [];
+  for (const line of lines.slice(firstHunk)) {
+    if (line.startsWith("@@ ") && current.length) {
+      hunks.push(current.join("\n"));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length) hunks.push(current.join("\n"));
+  return { header, hunks };
+}
+
+/**
+ * 파일의 대표 경로 (변경 후 경로 우선, 삭제된 파일은 변경 전 경로)
+ */
+export function getDiffFilePath(file: DiffFile): string {
+  return file.newPath ?? file.oldPath ?? "(unknown)";
+}
+
+/**
+ * JSON 응답용 요약 모델 (raw 텍스트 제외)
+ */
+export function toDiffJson(files: DiffFile[]): Array<Omit<DiffFile, "raw">> {
+  return files.map(({ raw: _raw, ...rest }) => rest);
+}
@@ -1,6 +1,8 @@
 import path from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+import { openRecordStore, parseStorageBackend, getDefaultSqlitePath, type RecordStore, type StorageBackend } from "./recordStore.js";
+
 export type Env = {
   /** 프로젝트 루트 경로 (git 저장소) */
   projectRoot: string;
@@ -8,12 +10,27 @@ export type Env = {
   dataDir: string;
   /** 커스텀 규칙 파일 경로 (선택적, 기본 규칙에 추가/오버라이드) */
   customRulesPath?: string;
+  /** diff 무시 패턴 파일 경로 (선택적) */
+  ignoreFilePath?: string;
+  /** 프로젝트 체크리스트 오버라이드 경로 (선택적) */
+  checksPath?: string;
+  /** 프로젝트 검증 명령 설정 경로 (선택적) */
+  verifyConfigPath?: string;
+  /** 리뷰/Task 저장소 종류 */
+  storageBackend: StorageBackend;
+  /** SQLite 저장소 DB 파일 (storageBackend가 sqlite일 때) */
+  sqlitePath?: string;
 };
 
 export type EnvGetters = {
   getProjectRoot: () => string;
   getDataDir: () => string;
   getCustomRulesPath: () => string | undefined;
+  getIgnoreFilePath: () => string | undefined;
+  getChecksPath: () => string | undefined;
+  getVerifyConfigPath: () => string | undefined;
+  /** 리뷰/Task 저장소 (STORAGE_BACKEND에 따라 JSON 파일 또는 SQLite, backend 지정시 해당 종류) */
+  getStore: (backend?: StorageBackend) => RecordStore;
 };
 
 // 캐시된 roots (MCP 클라이언트로부터 가져온 값)
@@ -74,13 +91,23 @@ function resolveProjectRoot(fallbackPath: string): string {
  * └── .review/
  *     ├── data/           # 리뷰/태스크 데이터 저장
  *     │   ├── reviews/
- *     │   └── tasks/
- *     └── rules.md        # 프로젝트 커스텀 규칙 (선택적)
+ *     │   ├── tasks/
+ *     │   ├── index/      # 목록/필터용 인덱스 (storage.reindex로 재생성)
+ *     │   └── review.db   # STORAGE_BACKEND=sqlite일 때 (reviews/에는 마크다운만)
+ *     ├── rules.md        # 프로젝트 커스텀 규칙 (선택적)
+ *     ├── ignore          # diff 무시 패턴 (선택적, .gitignore 문법)
+ *     ├── checks.yml      # 체크리스트 오버라이드 (선택적)
+ *     └── verify.yml      # task.verify 검증 명령 (선택적)
  * 
  * 환경변수:
  * - PROJECT_ROOT: 프로젝트 루트 경로 (미설정시 repoPath 파라미터 또는 cwd 사용)
  * - DATA_DIR: 데이터 저장 경로 (미설정시 {PROJECT_ROOT}/.review/data)
  * - CUSTOM_RULES_PATH: 커스텀 규칙 파일 경로 (미설정시 {PROJECT_ROOT}/.review/rules.md)
+ * - IGNORE_FILE_PATH: diff 무시 패턴 파일 경로 (미설정시 {PROJECT_ROOT}/.review/ignore)
+ * - CHECKS_PATH: 체크리스트 오버라이드 경로 (미설정시 {PROJECT_ROOT}/.review/checks.yml)
+ * - VERIFY_CONFIG_PATH: 검증 명령 설정 경로 (미설정시 {PROJECT_ROOT}/.review/verify.yml)
+ * - STORAGE_BACKEND: 저장소 종류 json | sqlite (미설정시 json)
+ * - SQLITE_PATH: SQLite DB 파일 (미설정시 {DATA_DIR}/review.db)
  * 
  * @param projectRoot - 프로젝트 루트 또는 fallback 경로
  */
@@ -101,7 +128,37 @@ export function readEnv(projectRoot: string): Env {
     ? path.resolve(process.env.CUSTOM_RULES_PATH)
     : path.join(reviewDir, "rules.md");
 
-  return { projectRoot: resolvedProjectRoot, dataDir, customRulesPath };
+  // IGNORE_FILE_PATH: 환경변수 또는 {PROJECT_ROOT}/.review/ignore
+  const ignoreFilePath = process.env.IGNORE_FILE_PATH
+    ? path.resolve(process.env.IGNORE_FILE_PATH)
+    : path.join(reviewDir, "ignore");
+
+  // CHECKS_PATH: 환경변수 또는 {PROJECT_ROOT}/.review/checks.yml
+  const checksPath = process.env.CHECKS_PATH
+    ? path.resolve(process.env.CHECKS_PATH)
+    : path.join(reviewDir, "checks.yml");
+
+  // VERIFY_CONFIG_PATH: 환경변수 또는 {PROJECT_ROOT}/.review/verify.yml
+  const verifyConfigPath = process.env.VERIFY_CONFIG_PATH
+    ? path.resolve(process.env.VERIFY_CONFIG_PATH)
+    : path.join(reviewDir, "verify.yml");
+
+  // STORAGE_BACKEND: json(기본) | sqlite
+  const storageBackend = parseStorageBackend(process.env.STORAGE_BACKEND);
+  const sqlitePath = storageBackend === "sqlite"
+    ? (process.env.SQLITE_PATH ? path.resolve(process.env.SQLITE_PATH) : getDefaultSqlitePath(dataDir))
+    : undefined;
+
+  return {
+    projectRoot: resolvedProjectRoot,
+    dataDir,
+    customRulesPath,
+    ignoreFilePath,
+    checksPath,
+    verifyConfigPath,
+    storageBackend,
+    sqlitePath,
+  };
 }
 
 /**
@@ -127,16 +184,18 @@ export function createEnvGetters(server: McpServer, fallbackPath: string): EnvGe
     }
   }, 100);
 
+  const getDataDir = () => {
+    const projectRoot = resolveProjectRoot(fallbackPath);
+    if (process.env.DATA_DIR) {
+      return path.resolve(process.env.DATA_DIR);
+    }
+    return path.join(projectRoot, ".review", "data");
+  };
+
   return {
     getProjectRoot: () => resolveProjectRoot(fallbackPath),
     
-    getDataDir: () => {
-      const projectRoot = resolveProjectRoot(fallbackPath);
-      if (process.env.DATA_DIR) {
-        return path.resolve(process.env.DATA_DIR);
-      }
-      return path.join(projectRoot, ".review", "data");
-    },
+    getDataDir,
     
     getCustomRulesPath: () => {
       const projectRoot = resolveProjectRoot(fallbackPath);
@@ -145,5 +204,36 @@ export function createEnvGetters(server: McpServer, fallbackPath: string): EnvGe
       }
       return path.join(projectRoot, ".review", "rules.md");
     },
+
+    getIgnoreFilePath: () => {
+      const projectRoot = resolveProjectRoot(fallbackPath);
+      if (process.env.IGNORE_FILE_PATH) {
+        return path.resolve(process.env.IGNORE_FILE_PATH);
+      }
+      return path.join(projectRoot, ".review", "ignore");
+    },
+
+    getChecksPath: () => {
+      const projectRoot = resolveProjectRoot(fallbackPath);
+      if (process.env.CHECKS_PATH) {
+        return path.resolve(process.env.CHECKS_PATH);
+      }
+      return path.join(projectRoot, ".review", "checks.yml");
+    },
+
+    getVerifyConfigPath: () => {
+      const projectRoot = resolveProjectRoot(fallbackPath);
+      if (process.env.VERIFY_CONFIG_PATH) {
+        return path.resolve(process.env.VERIFY_CONFIG_PATH);
+      }
+      return path.join(projectRoot, ".review", "verify.yml");
+    },
+
+    // 같은 설정이면 같은 인스턴스 (DATA_DIR이 바뀌면 새 저장소)
+    getStore: (backend) => openRecordStore({
+      backend: backend ?? parseStorageBackend(process.env.STORAGE_BACKEND),
+      dataDir: getDataDir(),
+      sqlitePath: process.env.SQLITE_PATH ? path.resolve(process.env.SQLITE_PATH) : undefined,
+    }),
   };
 }
@@ -0,0 +1,152 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+
+/**
+ * 여러 MCP 클라이언트(Cursor, Claude Desktop, CLI 등)가 같은 DATA_DIR을 쓸 때의 파일 저장 유틸
+ *
+ * - 원자적 쓰기: 임시 파일에 쓴 뒤 rename (쓰는 도중 종료되어도 깨진 JSON이 남지 않음)
+ * - 레코드 잠금: `{파일}.lock`을 배타적으로 생성, 보유 프로세스가 죽었거나 오래된 잠금은 회수
+ */
+
+// 잠금 대기 최대 시간
+const LOCK_TIMEOUT_MS = 10_000;
+// 이보다 오래된 잠금은 보유 프로세스가 비정상 종료된 것으로 간주
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 50;
+
+type LockInfo = { pid: number; hostname: string; acquired_at: string };
+
+/**
+ * 원자적 파일 쓰기 (같은 디렉토리의 임시 파일 → rename)
+ * - 임시 파일 이름은 `.tmp`로 끝나므로 `*.json` 목록에 잡히지 않음
+ */
+export async function writeFileAtomic(file: string, content: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fs.writeFile(tmp, content, "utf-8");
+    await fs.rename(tmp, file);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+export async function writeJsonAtomic(file: string, data: unknown): Promise<void> {
+  await writeFileAtomic(file, JSON.stringify(data, null, 2));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    // EPERM: 프로세스는 있지만 권한이 없음
+    return err?.code === "EPERM";
+  }
+}
+
+/**
+ * 잠금이 회수 대상인지 (같은 호스트에서 보유 프로세스가 죽었거나 LOCK_STALE_MS보다 오래됨)
+ */
+async function isStaleLock(lockFile: string): Promise<boolean> {
+  try {
+    const [txt, stat] = await Promise.all([fs.readFile(lockFile, "utf-8"), fs.stat(lockFile)]);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return true;
+    const info: LockInfo = JSON.parse(txt);
+    return info.hostname === os.hostname() && !isProcessAlive(info.pid);
+  } catch (err: any) {
+    // 잠금 파일을 쓰는 도중이면 내용이 비어 있을 수 있음 → 시간 기준으로만 판단
+    if (err?.code === "ENOENT") return false;
+    try {
+      return Date.now() - (await fs.stat(lockFile)).mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return false;
+    }
+  }
+}
+
+async function acquireLock(lockFile: string): Promise<void> {
+  const info: LockInfo = { pid: process.pid, hostname: os.hostname(), acquired_at: new Date().toISOString() };
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockFile, "wx");
+      try {
+        await handle.writeFile(JSON.stringify(info), "utf-8");
+      } finally {
+        await handle.close();
+      }
+      return;
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+    }
+
+    if (await isStaleLock(lockFile)) {
+      await fs.rm(lockFile, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`다른 클라이언트가 레코드를 사용 중입니다 (잠금 대기 시간 초과): ${lockFile}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * 파일 단위 잠금을 잡고 fn 실행 (fn이 실패해도 잠금은 해제)
+ * - 같은 프로세스 안의 호출도 잠금 파일로 직렬화됨
+ * - 여러 잠금을 잡을 때는 레코드 → 인덱스 순서로 잡음 (교착 방지)
+ */
+export async function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const lockFile = `${file}.lock`;
+  await acquireLock(lockFile);
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockFile, { force: true });
+  }
+}
+
+/**
+ * DATA_DIR 단위 작업 잠금 ({DATA_DIR}/index/{name}.lock)
+ * - 여러 레코드를 읽고 판단한 뒤 쓰는 작업(순환 검사, 중복 확인 등)을 직렬화
+ * - 잠금 순서: 작업 → 레코드 → 인덱스
+ */
+export async function withDataDirLock<T>(dataDir: string, name: string, fn: () => Promise<T>): Promise<T> {
+  const dir = path.join(dataDir, "index");
+  await fs.mkdir(dir, { recursive: true });
+  return withFileLock(path.join(dir, name), fn);
+}
+
+/**
+ * 디렉토리의 남은 임시 파일/잠금 정리 (비정상 종료된 프로세스가 남긴 것만)
+ * - `*.tmp`: LOCK_STALE_MS보다 오래된 것
+ * - `*.lock`: 회수 대상인 잠금
+ */
+export async function cleanupStaleFiles(dir: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const removed: string[] = [];
+  for (const name of names) {
+    const file = `${dir}/${name}`;
+    try {
+      if (name.endsWith(".tmp")) {
+        if (Date.now() - (await fs.stat(file)).mtimeMs <= LOCK_STALE_MS) continue;
+      } else if (!name.endsWith(".lock") || !(await isStaleLock(file))) {
+        continue;
+      }
+      await fs.rm(file, { force: true });
+      removed.push(name);
+    } catch {
+      // 그 사이 정리됨
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,96 @@
+import crypto from "node:crypto";
+
+import type { DiffFile } from "./diffParser.js";
+import { findDiffFile, normalizeFindingPath } from "./findingValidator.js";
+import type { Finding } from "./storage.js";
+
+/**
+ * finding 지문 (리뷰 간 같은 이슈 매칭, 중복 Task 방지용)
+ *
+ * 라인 번호는 수정 후 쉽게 밀리므로 지문에 넣지 않고,
+ * 파일 + 카테고리 + 정규화한 제목 + 해당 라인 주변 코드로 계산합니다.
+ */
+
+// 지문에 포함할 주변 코드 최대 라인 수
+const MAX_CODE_LINES = 20;
+
+function shortHash(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+/**
+ * 제목 정규화 (대소문자, 따옴표/괄호/구두점, 공백 차이 무시)
+ */
+export function normalizeFindingTitle(title: string): string {
+  return title
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * 코드 정규화 (들여쓰기/공백 차이와 빈 줄 무시)
+ */
+export function normalizeCode(lines: string[]): string {
+  return lines
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * diff에서 finding 라인 범위의 변경 후 코드 추출 (context + add 라인)
+ */
+export function extractNearbyCode(file: DiffFile, startLine: number, endLine = startLine): string[] {
+  const from = Math.min(startLine, endLine);
+  const to = Math.min(Math.max(startLine, endLine), from + MAX_CODE_LINES - 1);
+  const lines: string[] = [];
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line.newLine !== undefined && line.newLine >= from && line.newLine <= to) {
+        lines.push(line.content);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * 지문 계산
+ * - code_hash: 주변 코드만의 해시 (제목이 바뀌어도 같은 코드면 매칭하기 위한 보조 키, 코드가 없으면 생략)
+ */
+export function computeFindingFingerprint(
+  finding: { file?: string; category?: string; title_ko: string },
+  codeLines: string[] = [],
+  repoRoot?: string
+): { fingerprint: string; code_hash?: string } {
+  const file = finding.file ? normalizeFindingPath(finding.file, repoRoot) : "";
+  const code = normalizeCode(codeLines);
+  return {
+    fingerprint: shortHash([file, finding.category ?? "", normalizeFindingTitle(finding.title_ko), code].join("\n")),
+    code_hash: code ? shortHash(code) : undefined,
+  };
+}
+
+/**
+ * findings에 fingerprint/code_hash 기록 (review.save 시)
+ * - diff가 없거나 위치를 찾지 못하면 코드 없이 계산
+ */
+export function attachFingerprints(findings: Finding[], files: DiffFile[] = [], repoRoot?: string): Finding[] {
+  return findings.map((finding) => {
+    const diffFile = finding.file ? findDiffFile(files, finding.file, repoRoot) : undefined;
+    const codeLines = diffFile && finding.startLine
+      ? extractNearbyCode(diffFile, finding.startLine, finding.endLine ?? finding.startLine)
+      : [];
+    const { fingerprint, code_hash } = computeFindingFingerprint(finding, codeLines, repoRoot);
+    return code_hash ? { ...finding, fingerprint, code_hash } : { ...finding, fingerprint };
+  });
+}
+
+/**
+ * 저장된 지문 반환 (지문 기록 이전 리뷰는 코드 없이 계산)
+ */
+export function getFindingFingerprint(finding: Finding): string {
+  return finding.fingerprint ?? computeFindingFingerprint(finding).fingerprint;
+}
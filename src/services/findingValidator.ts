@@ -0,0 +1,120 @@
+import { getDiffFilePath, type DiffFile } from "./diffParser.js";
+import type { Finding, FindingLocationStatus } from "./storage.js";
+
+export type FindingLocationIssue = {
+  index: number;
+  status: Exclude<FindingLocationStatus, "valid" | "no_location">;
+  file?: string;
+  message: string;
+};
+
+// 위치 검증 상태 한글 매핑
+export const LOCATION_STATUS_LABELS: Record<FindingLocationStatus, string> = {
+  valid: "diff 범위 내",
+  no_location: "위치 미지정",
+  file_not_in_diff: "diff에 없는 파일",
+  outside_hunks: "변경 범위 밖 라인",
+  unchecked: "검증 안 됨",
+};
+
+/**
+ * finding의 파일 경로를 diff 경로와 비교할 수 있게 정규화
+ * - ./, a/, b/ 접두어 및 저장소 루트 절대경로 제거
+ */
+export function normalizeFindingPath(file: string, repoRoot?: string): string {
+  let normalized = file.trim().replace(/\\/g, "/");
+  if (repoRoot) {
+    const root = repoRoot.replace(/\\/g, "/").replace(/\/+$/, "");
+    if (normalized.startsWith(`${root}/`)) {
+      normalized = normalized.slice(root.length + 1);
+    }
+  }
+  return normalized.replace(/^\.\//, "").replace(/^[ab]\//, "");
+}
+
+/**
+ * 경로로 diff 파일 찾기 (변경 후/변경 전 경로 모두 비교)
+ */
+export function findDiffFile(files: DiffFile[], file: string, repoRoot?: string): DiffFile | undefined {
+  const target = normalizeFindingPath(file, repoRoot);
+  return files.find((f) => f.newPath === target || f.oldPath === target);
+}
+
+/**
+ * 라인 범위가 변경된 헌크와 겹치는지 확인
+ * - 삭제된 파일은 변경 전 라인 기준, 그 외는 변경 후 라인 기준
+ */
+export function isRangeInHunks(file: DiffFile, startLine: number, endLine: number): boolean {
+  const useOld = file.newPath === null;
+  return file.hunks.some((hunk) => {
+    const start = useOld ? hunk.oldStart : hunk.newStart;
+    const count = useOld ? hunk.oldLines : hunk.newLines;
+    if (count === 0) return false;
+    const end = start + count - 1;
+    return startLine <= end && endLine >= start;
+  });
+}
+
+/**
+ * 각 finding의 file/startLine/endLine을 실제 diff와 대조
+ * - 결과 finding에는 location_status가 기록됨
+ */
+export function validateFindingLocations(
+  findings: Finding[],
+  files: DiffFile[],
+  repoRoot?: string
+): { findings: Finding[]; issues: FindingLocationIssue[] } {
+  const issues: FindingLocationIssue[] = [];
+
+  const checked = findings.map((finding, index) => {
+    if (!finding.file) {
+      return { ...finding, location_status: "no_location" as const };
+    }
+
+    const diffFile = findDiffFile(files, finding.file, repoRoot);
+    if (!diffFile) {
+      issues.push({
+        index,
+        status: "file_not_in_diff",
+        file: finding.file,
+        message: `파일 \`${finding.file}\`이(가) diff에 없습니다.`,
+      });
+      return { ...finding, location_status: "file_not_in_diff" as const };
+    }
+
+    if (finding.startLine === undefined && finding.endLine === undefined) {
+      return { ...finding, location_status: "valid" as const };
+    }
+
+    const startLine = finding.startLine ?? finding.endLine!;
+    const endLine = finding.endLine ?? startLine;
+    if (endLine < startLine || !isRangeInHunks(diffFile, startLine, endLine)) {
+      issues.push({
+        index,
+        status: "outside_hunks",
+        file: finding.file,
+        message: `\`${getDiffFilePath(diffFile)}:${startLine}-${endLine}\`이(가) 변경된 헌크 범위 밖입니다.`,
+      });
+      return { ...finding, location_status: "outside_hunks" as const };
+    }
+
+    return { ...finding, location_status: "valid" as const };
+  });
+
+  return { findings: checked, issues };
+}
+
+/**
+ * 위치 검증 결과를 경고 리포트(마크다운)로 변환
+ */
+export function formatLocationReport(issues: FindingLocationIssue[], findings: Finding[]): string {
+  const lines: string[] = [];
+  lines.push(`⚠️ 위치 검증 경고 ${issues.length}건`);
+  lines.push("");
+  for (const issue of issues) {
+    const title = findings[issue.index]?.title_ko ?? "";
+    lines.push(`- finding #${issue.index + 1} [${LOCATION_STATUS_LABELS[issue.status]}] ${title}`);
+    lines.push(`  - ${issue.message}`);
+  }
+  return lines.join("\n");
+}
@@ -1,6 +1,8 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 
+import { parseUnifiedDiff, type DiffFile } from "./diffParser.js";
+
 const execFileAsync = promisify(execFile);
 
 /**
@@ -25,33 +27,161 @@ async function ensureRemoteFetched(repoPath: string, base: string): Promise<void
   }
 }
 
-export async function getGitDiff(params: {
-  repoPath: string;
+/**
+ * diff 수집 모드
+ * - three_dot: base...head (merge-base 기준, PR diff와 동일) - 기본값
+ * - two_dot: base..head (두 커밋 간 직접 비교)
+ * - working_tree: HEAD 대비 커밋되지 않은 모든 변경 (staged + unstaged + untracked)
+ * - staged: HEAD 대비 staged 변경만
+ * - commit: head 커밋 하나의 변경
+ */
+export type DiffMode = "three_dot" | "two_dot" | "working_tree" | "staged" | "commit";
+
+export type GitDiffResult = {
+  diff: string;
+  /** 실제로 사용된 base (main → origin/main 변환 반영) */
   base: string;
   head: string;
-  contextLines?: number;
-}): Promise<{ diff: string; base: string; head: string }> {
-  let { repoPath, base, head, contextLines } = params;
+  mode: DiffMode;
+  /** 사람이 읽는 diff 범위 표기 */
+  label: string;
+  /** base 자동 변환 등 호출자에게 알려야 할 메모 */
+  notes: string[];
+  files: DiffFile[];
+};
+
+// working_tree/staged 모드에서 target에 기록되는 가상 ref
+export const WORKING_TREE_REF = "WORKTREE";
+export const STAGED_REF = "INDEX";
 
-  // "main"을 "origin/main"으로 자동 변환
-  if (base === "main") {
-    base = "origin/main";
+// untracked 파일은 너무 많으면 diff가 폭증하므로 상한을 둠
+const MAX_UNTRACKED_FILES = 200;
+
+/**
+ * 모드별 range 표기
+ */
+export function formatDiffLabel(mode: DiffMode | undefined, base: string, head: string): string {
+  switch (mode) {
+    case "two_dot":
+      return `${base}..${head}`;
+    case "working_tree":
+      return "HEAD ↔ working tree";
+    case "staged":
+      return "HEAD ↔ staged (index)";
+    case "commit":
+      return `commit ${head}`;
+    default:
+      return `${base}...${head}`;
+  }
+}
+
+/**
+ * untracked 파일을 신규 파일 diff로 변환 (git diff HEAD에는 포함되지 않음)
+ */
+async function collectUntrackedDiff(repoPath: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["ls-files", "--others", "--exclude-standard", "-z"], {
+    cwd: repoPath,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  const files = stdout.split("\0").filter(Boolean).slice(0, MAX_UNTRACKED_FILES);
+
+  const parts: string[] = [];
+  for (const file of files) {
+    try {
+      await execFileAsync("git", ["diff", "--no-index", "--", "/dev/null", file], { cwd: repoPath, maxBuffer: 20 * 1024 * 1024 });
+    } catch (err: any) {
+      // --no-index는 차이가 있으면 exit code 1로 종료 - stdout이 실제 diff
+      if (err?.code === 1 && typeof err.stdout === "string") {
+        parts.push(err.stdout);
+      }
+    }
   }
+  return parts.join("");
+}
 
-  // 원격 브랜치 사용 시 fetch 실행 (로컬 브랜치 변경 없음, 안전)
-  await ensureRemoteFetched(repoPath, base);
+/**
+ * 입력한 base/head/mode → 실제 diff에 쓰는 ref (getGitDiff와 같은 규칙)
+ * - three_dot/two_dot: base "main" → "origin/main"
+ * - working_tree/staged: HEAD ↔ 작업 트리/스테이징 영역
+ * - commit: head 커밋과 그 부모(`${head}^`)
+ */
+export function resolveDiffTarget(target: { base: string; head: string; mode?: DiffMode }): {
+  base: string;
+  head: string;
+  mode: DiffMode;
+  notes: string[];
+} {
+  const mode = target.mode ?? "three_dot";
+  const notes: string[] = [];
+  if (mode === "three_dot" || mode === "two_dot") {
+    if (target.base === "main") {
+      notes.push("base 'main'을 'origin/main'으로 변환했습니다.");
+      return { base: "origin/main", head: target.head, mode, notes };
+    }
+    return { base: target.base, head: target.head, mode, notes };
+  }
+  if (mode === "working_tree") return { base: "HEAD", head: WORKING_TREE_REF, mode, notes };
+  if (mode === "staged") return { base: "HEAD", head: STAGED_REF, mode, notes };
+  return { base: `${target.head}^`, head: target.head, mode, notes };
+}
 
-  // main...HEAD 형태가 일반적으로 PR diff에 가까움(merge-base 기준)
-  const range = `${base}...${head}`;
+export async function getGitDiff(params: {
+  repoPath: string;
+  base: string;
+  head: string;
+  contextLines?: number;
+  mode?: DiffMode;
+  /** true면 git fetch를 절대 실행하지 않음 (로컬 ref만 사용) */
+  offline?: boolean;
+}): Promise<GitDiffResult> {
+  const { repoPath, contextLines } = params;
+  const { base, head, mode, notes } = resolveDiffTarget(params);
 
-  const args = ["diff", range];
+  const args = ["diff"];
   if (typeof contextLines === "number") {
     args.push(`--unified=${Math.max(0, Math.floor(contextLines))}`);
   }
 
+  if (mode === "three_dot" || mode === "two_dot") {
+    // 원격 브랜치 사용 시 fetch 실행 (로컬 브랜치 변경 없음, 안전)
+    if (params.offline) {
+      if (base.startsWith("origin/")) {
+        notes.push("offline 모드: git fetch 없이 로컬에 있는 원격 추적 브랜치를 사용했습니다.");
+      }
+    } else {
+      await ensureRemoteFetched(repoPath, base);
+    }
+
+    // main...HEAD 형태가 일반적으로 PR diff에 가까움(merge-base 기준)
+    args.push(mode === "two_dot" ? `${base}..${head}` : `${base}...${head}`);
+  } else if (mode === "working_tree") {
+    args.push("HEAD");
+  } else if (mode === "staged") {
+    args.push("--cached");
+  } else {
+    // commit: head 커밋 하나 (root 커밋도 지원하도록 show 사용)
+    args[0] = "show";
+    args.push("--format=", "--patch", head);
+  }
+
   try {
     const { stdout } = await execFileAsync("git", args, { cwd: repoPath, maxBuffer: 20 * 1024 * 1024 });
-    return { diff: stdout ?? "", base, head };
+    let diff = stdout ?? "";
+    if (mode === "working_tree") {
+      const untracked = await collectUntrackedDiff(repoPath);
+      if (untracked) {
+        diff = diff ? `${diff.trimEnd()}\n${untracked}` : untracked;
+      }
+    }
+    return {
+      diff,
+      base,
+      head,
+      mode,
+      label: formatDiffLabel(mode, base, head),
+      notes,
+      files: parseUnifiedDiff(diff),
+    };
   } catch (err: any) {
     const msg = err?.stderr || err?.message || String(err);
     throw new Error(`git diff 실패: ${msg}`);
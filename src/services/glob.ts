@@ -0,0 +1,85 @@
+/**
+ * 경량 glob 매처 (외부 의존성 없이 diff 경로 필터링용)
+ *
+ * 지원 문법 (.gitignore와 유사):
+ * - `*`: `/`를 제외한 임의 문자열, `?`: `/`를 제외한 한 글자
+ * - `**`: 디렉토리 경계를 포함한 임의 문자열
+ * - `{a,b}`: 선택
+ * - `/`가 없는 패턴(`*.snap`)은 모든 디렉토리의 파일 이름에 매칭
+ * - `/`로 시작하는 패턴은 저장소 루트 기준
+ * - `/`로 끝나는 패턴(`dist/`)은 해당 디렉토리 하위 전체 (끝의 `/`를 뗀 나머지에 `/`가 없으면 모든 위치의 디렉토리)
+ */
+
+const cache = new Map<string, RegExp>();
+
+function escapeRegExp(ch: string): string {
+  return /[.+^$()|[\]\\]/.test(ch) ? `\\${ch}` : ch;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let p = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  // 루트 기준 여부는 끝의 "/"를 뗀 패턴으로 판단 ("dist/"는 모든 위치의 dist 디렉토리)
+  const dirOnly = p.length > 1 && p.endsWith("/");
+  if (dirOnly) p = p.replace(/\/+$/, "");
+  if (p.startsWith("/")) {
+    p = p.slice(1);
+  } else if (!p.includes("/")) {
+    p = `**/${p}`;
+  }
+  if (dirOnly) p = `${p}/**`;
+
+  let out = "";
+  let inBrace = false;
+  for (let i = 0; i < p.length; i++) {
+    const ch = p[i];
+    if (ch === "*") {
+      if (p[i + 1] === "*") {
+        const atSegmentStart = i === 0 || p[i - 1] === "/";
+        if (atSegmentStart && p[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else if (p[i - 1] === "/" && i + 2 === p.length) {
+          // "dir/**" → dir 하위 전체
+          out = out.slice(0, -1) + "(?:/.*)?";
+          i += 1;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "{") {
+      inBrace = true;
+      out += "(?:";
+    } else if (ch === "}" && inBrace) {
+      inBrace = false;
+      out += ")";
+    } else if (ch === "," && inBrace) {
+      out += "|";
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+
+  const re = new RegExp(`^${out}$`);
+  cache.set(pattern, re);
+  return re;
+}
+
+export function matchGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return globToRegExp(pattern).test(normalized);
+}
+
+/**
+ * 패턴 목록 중 처음으로 매칭되는 패턴 반환 (없으면 undefined)
+ */
+export function findMatchingGlob(filePath: string, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => matchGlob(filePath, pattern));
+}
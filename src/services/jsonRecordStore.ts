@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { withFileLock, writeJsonAtomic } from "./fileStore.js";
+import { listRecordIds, readIndex, rebuildIndex, removeIndexEntry, upsertIndexEntry } from "./storageIndex.js";
+import {
+  getRecordLabel,
+  type EntryBuilders,
+  type IndexEntry,
+  type IndexEntryByKind,
+  type RecordKind,
+  type RecordStore,
+  type StoredRecord,
+} from "./recordStore.js";
+
+/**
+ * JSON 파일 저장소 (기본)
+ *
+ * {DATA_DIR}/
+ * ├── reviews/{id}.json
+ * ├── tasks/{id}.json
+ * └── index/{reviews,tasks}.json
+ *
+ * - 쓰기는 원자적(임시 파일 → rename), 수정/삭제는 레코드 잠금 안에서 최신 내용 기준
+ * - 인덱스 갱신도 레코드 잠금을 쥔 채로 (레코드 → 인덱스 순서)
+ *   잠금을 푼 뒤 갱신하면 같은 레코드의 동시 수정이 인덱스에 역순으로 반영될 수 있음
+ */
+export function createJsonRecordStore(dataDir: string, buildEntry: EntryBuilders): RecordStore {
+  const getPath = (kind: RecordKind, id: string) => path.join(dataDir, kind, `${id}.json`);
+  const ensureDir = (kind: RecordKind) => fs.mkdir(path.join(dataDir, kind), { recursive: true });
+  const getBuilder = (kind: RecordKind) => buildEntry[kind] as (raw: unknown) => IndexEntry;
+
+  async function readRaw(kind: RecordKind, id: string): Promise<unknown> {
+    let txt: string;
+    try {
+      txt = await fs.readFile(getPath(kind, id), "utf-8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") throw new Error(`${getRecordLabel(kind)}를 찾을 수 없습니다: ${id}`);
+      throw err;
+    }
+    return JSON.parse(txt);
+  }
+
+  async function exists(kind: RecordKind, id: string): Promise<boolean> {
+    try {
+      await fs.access(getPath(kind, id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    backend: "json",
+    dataDir,
+    location: dataDir,
+
+    async read(kind, id) {
+      await ensureDir(kind);
+      return readRaw(kind, id);
+    },
+
+    has: exists,
+
+    async insert(kind, record) {
+      await ensureDir(kind);
+      const file = getPath(kind, record.id);
+      await withFileLock(file, async () => {
+        if (await exists(kind, record.id)) {
+          throw new Error(`이미 있는 ${getRecordLabel(kind)} id입니다: ${record.id}`);
+        }
+        await writeJsonAtomic(file, record);
+        await upsertIndexEntry(dataDir, kind, getBuilder(kind)(record), getBuilder(kind));
+      });
+    },
+
+    async modify<T extends StoredRecord>(kind: RecordKind, id: string, update: (raw: unknown) => T): Promise<T> {
+      await ensureDir(kind);
+      const file = getPath(kind, id);
+      return withFileLock(file, async () => {
+        const next = update(await readRaw(kind, id));
+        await writeJsonAtomic(file, next);
+        await upsertIndexEntry(dataDir, kind, getBuilder(kind)(next), getBuilder(kind));
+        return next;
+      });
+    },
+
+    async remove(kind, id) {
+      await ensureDir(kind);
+      const file = getPath(kind, id);
+      return withFileLock(file, async () => {
+        const current = await readRaw(kind, id);
+        await fs.unlink(file);
+        await removeIndexEntry(dataDir, kind, id, getBuilder(kind));
+        return current;
+      });
+    },
+
+    async ids(kind) {
+      return (await listRecordIds(dataDir, kind)).sort((a, b) => b.localeCompare(a));
+    },
+
+    async entries<K extends RecordKind>(kind: K): Promise<IndexEntryByKind[K][]> {
+      await ensureDir(kind);
+      return readIndex(dataDir, kind, buildEntry[kind] as (raw: unknown) => IndexEntryByKind[K]);
+    },
+
+    async reindex(kind) {
+      await ensureDir(kind);
+      return rebuildIndex(dataDir, kind, getBuilder(kind));
+    },
+  };
+}
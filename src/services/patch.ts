@@ -0,0 +1,137 @@
+import { spawn } from "node:child_process";
+
+import { getDiffFilePath, parseUnifiedDiff, splitFileHeader } from "./diffParser.js";
+
+export type PatchHunkResult = {
+  file: string;
+  /** 파일 내 헌크 번호 (1부터) */
+  hunkIndex: number;
+  header: string;
+  ok: boolean;
+  error?: string;
+};
+
+export type PatchCheckResult = {
+  ok: boolean;
+  /** 정규화된 patch (git apply에 실제로 넘긴 텍스트) */
+  patch: string;
+  hunks: PatchHunkResult[];
+  /** 전체 patch 단위 에러 (헌크로 나눌 수 없는 경우 등) */
+  error?: string;
+};
+
+/**
+ * 코드 블록 마커(```diff ... ```) 제거 및 정리 (표시용)
+ */
+export function stripCodeFence(diff: string): string {
+  return diff
+    .replace(/^\s*```[\w-]*\s*\n?/, "")  // 시작 부분의 ```diff 제거
+    .replace(/\n?```\s*$/g, "")          // 끝 부분의 ``` 제거
+    .trim();
+}
+
+/**
+ * 저장된 suggestion_patch_diff를 git apply 가능한 형태로 정규화
+ * - 코드 블록 마커 제거, CRLF → LF, 끝 개행 보장
+ * - ---/+++ 헤더 없이 @@부터 시작하면 대상 파일 기준으로 헤더 추가
+ * - diff --git 헤더가 없으면 ---/+++ 경로로 헤더 추가 (헌크 단위 분석용)
+ */
+export function normalizePatchDiff(diff: string, file?: string): string {
+  let lines = stripCodeFence(diff).replace(/\r\n/g, "\n").split("\n");
+
+  const hasMarkers = lines.some((line) => line.startsWith("--- ")) && lines.some((line) => line.startsWith("+++ "));
+  if (!hasMarkers && file && lines[0]?.startsWith("@@")) {
+    const target = file.replace(/^\.\//, "");
+    lines = [`--- a/${target}`, `+++ b/${target}`, ...lines];
+  }
+
+  if (!lines.some((line) => line.startsWith("diff --git "))) {
+    const out: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const next = lines[i + 1];
+      if (line.startsWith("--- ") && next?.startsWith("+++ ")) {
+        const oldPath = line.slice(4).replace(/\t.*$/, "").trim();
+        const newPath = next.slice(4).replace(/\t.*$/, "").trim();
+        const a = oldPath === "/dev/null" ? newPath.replace(/^b\//, "a/") : oldPath;
+        const b = newPath === "/dev/null" ? oldPath.replace(/^a\//, "b/") : newPath;
+        out.push(`diff --git ${a.startsWith("a/") ? a : `a/${a}`} ${b.startsWith("b/") ? b : `b/${b}`}`);
+      }
+      out.push(line);
+    }
+    lines = out;
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * stdin으로 patch를 넘겨 git 명령 실행
+ */
+function runGitWithInput(
+  args: string[],
+  cwd: string,
+  input: string
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => { stdout += chunk; });
+    child.stderr.on("data", (chunk) => { stderr += chunk; });
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }));
+    child.stdin.end(input);
+  });
+}
+
+// 모델이 작성한 헌크는 라인 수가 틀린 경우가 많아 --recount로 헤더 숫자를 다시 계산
+const APPLY_ARGS = ["apply", "--recount", "--whitespace=nowarn"];
+
+/**
+ * git apply --check 드라이런 (작업 트리 변경 없음)
+ * - 전체가 실패하면 헌크별로 다시 검사해서 어느 헌크가 충돌하는지 보고
+ */
+export async function checkPatch(repoPath: string, patch: string): Promise<PatchCheckResult> {
+  const whole = await runGitWithInput([...APPLY_ARGS, "--check", "-"], repoPath, patch);
+  const files = parseUnifiedDiff(patch);
+
+  const hunks: PatchHunkResult[] = [];
+  for (const file of files) {
+    const { header, hunks: rawHunks } = splitFileHeader(file.raw);
+    for (let i = 0; i < rawHunks.length; i++) {
+      const result: PatchHunkResult = {
+        file: getDiffFilePath(file),
+        hunkIndex: i + 1,
+        header: file.hunks[i]?.header ?? rawHunks[i].split("\n")[0],
+        ok: true,
+      };
+      if (whole.code !== 0) {
+        const single = await runGitWithInput([...APPLY_ARGS, "--check", "-"], repoPath, `${header}\n${rawHunks[i]}\n`);
+        if (single.code !== 0) {
+          result.ok = false;
+          result.error = single.stderr.trim() || "patch does not apply";
+        }
+      }
+      hunks.push(result);
+    }
+  }
+
+  const ok = whole.code === 0;
+  return {
+    ok,
+    patch,
+    hunks,
+    error: ok ? undefined : (hunks.some((h) => !h.ok) ? undefined : whole.stderr.trim() || "patch does not apply"),
+  };
+}
+
+/**
+ * patch를 작업 트리에 실제로 적용 (checkPatch 통과 후에만 호출)
+ */
+export async function applyPatch(repoPath: string, patch: string): Promise<void> {
+  const result = await runGitWithInput([...APPLY_ARGS, "-"], repoPath, patch);
+  if (result.code !== 0) {
+    throw new Error(`git apply 실패: ${result.stderr.trim()}`);
+  }
+}
@@ -0,0 +1,405 @@
+import { execFile } from "node:child_process";
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+
+import { getDiffFilePath, parseUnifiedDiff, type DiffFile, type DiffLine } from "./diffParser.js";
+import { findDiffFile, normalizeFindingPath } from "./findingValidator.js";
+import { normalizePatchDiff, stripCodeFence } from "./patch.js";
+import {
+  CATEGORY_LABELS,
+  SEVERITY_ICONS,
+  SEVERITY_LABELS,
+  type Finding,
+  type ReviewCommitRefs,
+  type ReviewRecord,
+} from "./storage.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 리뷰 → PR/MR 리뷰 코멘트 payload (review.export_pr_comments)
+ *
+ * 네트워크 요청은 하지 않고 API 요청 본문(JSON)만 만듭니다. 게시는 각자 도구(gh api, curl 등)로 합니다.
+ * - GitHub: "Create a review for a pull request" 요청 본문 (comments[]: path/line/side/start_line)
+ * - GitLab: "Create new merge request thread" 요청 본문 배열 (position: base/start/head sha, old/new line)
+ * - 라인은 리뷰 대상(target)의 실제 diff(base...head)로 매핑
+ *   (review.save가 기록한 리뷰 당시 커밋(target.refs)이 있으면 그 커밋 기준, 없으면 현재 ref 기준)
+ *   - 변경 범위(헌크) 밖이거나 diff에 없는 파일의 finding은 리뷰 본문(요약)에 모아서 표시
+ * - suggestion_patch_diff는 헌크 하나짜리이고 현재 코드와 일치하면 suggestion 블록으로 변환,
+ *   아니면 diff 코드 블록으로 본문에 첨부
+ */
+
+export type PrPlatform = "github" | "gitlab";
+
+/** GitLab MR의 diff_refs에 해당하는 커밋 */
+export type PrDiffRefs = ReviewCommitRefs;
+
+export type GitHubReviewComment = {
+  path: string;
+  body: string;
+  line: number;
+  side: "LEFT" | "RIGHT";
+  start_line?: number;
+  start_side?: "LEFT" | "RIGHT";
+};
+
+export type GitHubReviewPayload = {
+  commit_id: string;
+  event: "COMMENT";
+  body: string;
+  comments: GitHubReviewComment[];
+};
+
+type GitLabLineRef = {
+  line_code: string;
+  type: "new" | "old" | null;
+  old_line: number | null;
+  new_line: number | null;
+};
+
+export type GitLabDiscussionPayload = {
+  body: string;
+  position?: {
+    position_type: "text";
+    base_sha: string;
+    start_sha: string;
+    head_sha: string;
+    old_path: string;
+    new_path: string;
+    old_line?: number;
+    new_line?: number;
+    line_range?: { start: GitLabLineRef; end: GitLabLineRef };
+  };
+};
+
+/** 인라인으로 달지 못하고 본문에 모은 finding (번호는 1부터) */
+export type GeneralFinding = { index: number; title: string; reason: string };
+
+export type PrCommentExport = {
+  refs: PrDiffRefs;
+  github: GitHubReviewPayload;
+  gitlab: GitLabDiscussionPayload[];
+  inline: number;
+  general: GeneralFinding[];
+  suggestions: number;
+  /** suggestion으로 만들지 못해 diff 블록으로 첨부한 제안 패치 */
+  patchNotes: { index: number; title: string; reason: string }[];
+};
+
+type Side = "LEFT" | "RIGHT";
+
+type LineRef = { hunkIndex: number; line: DiffLine };
+
+type CommentLocation = {
+  file: DiffFile;
+  side: Side;
+  start: LineRef;
+  end: LineRef;
+};
+
+type Suggestion = {
+  /** head 파일 기준 바꿀 라인 범위 */
+  startLine: number;
+  endLine: number;
+  /** 범위의 기존 내용 (startLine부터 순서대로) */
+  original: string[];
+  lines: string[];
+};
+
+async function git(repoPath: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd: repoPath, maxBuffer: 20 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+/**
+ * ref → 커밋 SHA (없으면 에러)
+ */
+export async function resolveCommit(repoPath: string, ref: string): Promise<string> {
+  return git(repoPath, ["rev-parse", "--verify", `${ref}^{commit}`]);
+}
+
+/**
+ * 리뷰 대상의 base/start/head 커밋 (getGitDiff가 실제로 사용한 base 기준)
+ * - working_tree/staged 리뷰는 커밋이 없어 PR 코멘트로 내보낼 수 없음
+ */
+export async function resolveDiffRefs(repoPath: string, target: { base: string; head: string; mode?: ReviewRecord["target"]["mode"] }): Promise<PrDiffRefs> {
+  const mode = target.mode ?? "three_dot";
+  if (mode === "working_tree" || mode === "staged") {
+    throw new Error(`커밋되지 않은 변경(${mode})을 대상으로 한 리뷰는 PR 코멘트로 내보낼 수 없습니다. three_dot/two_dot/commit 모드로 리뷰한 뒤 다시 시도하세요.`);
+  }
+  try {
+    const head_sha = await resolveCommit(repoPath, target.head);
+    const start_sha = await resolveCommit(repoPath, target.base);
+    const base_sha = mode === "three_dot" ? await git(repoPath, ["merge-base", start_sha, head_sha]) : start_sha;
+    return { base_sha, start_sha, head_sha };
+  } catch (err: any) {
+    throw new Error(`리뷰 대상 커밋을 찾을 수 없습니다 (${target.base}, ${target.head}): ${err?.stderr || err?.message || String(err)}`);
+  }
+}
+
+/**
+ * 코멘트를 달 수 있는 라인 (RIGHT: 변경 후 라인 번호, LEFT: 변경 전 라인 번호)
+ */
+function indexCommentableLines(file: DiffFile, side: Side): Map<number, LineRef> {
+  const map = new Map<number, LineRef>();
+  file.hunks.forEach((hunk, hunkIndex) => {
+    for (const line of hunk.lines) {
+      const num = side === "RIGHT" ? line.newLine : line.oldLine;
+      if (num !== undefined) map.set(num, { hunkIndex, line });
+    }
+  });
+  return map;
+}
+
+/**
+ * 라인 범위 중 코멘트할 수 있는 부분 (마지막 라인과 같은 헌크에 있는 구간)
+ */
+function pickRange(lines: Map<number, LineRef>, startLine: number, endLine: number): { start: LineRef; end: LineRef } | null {
+  let end: LineRef | undefined;
+  let endNum = endLine;
+  for (; endNum >= startLine; endNum--) {
+    end = lines.get(endNum);
+    if (end) break;
+  }
+  if (!end) return null;
+  let start = end;
+  for (let n = endNum - 1; n >= startLine; n--) {
+    const ref = lines.get(n);
+    if (!ref || ref.hunkIndex !== end.hunkIndex) break;
+    start = ref;
+  }
+  return { start, end };
+}
+
+function lineNumber(ref: LineRef, side: Side): number {
+  return (side === "RIGHT" ? ref.line.newLine : ref.line.oldLine) as number;
+}
+
+/**
+ * suggestion_patch_diff → 현재(head) 파일에서 바꿀 라인 범위와 새 내용
+ * - 파일 하나, 헌크 하나인 패치만 (변경된 첫 라인 ~ 마지막 라인 구간)
+ * - 추가만 있는 패치는 바로 앞(없으면 뒤) 문맥 라인을 포함해 교체
+ */
+function parseSuggestion(finding: Finding, diffFile: DiffFile): Suggestion {
+  const files = parseUnifiedDiff(normalizePatchDiff(finding.suggestion_patch_diff ?? "", finding.file));
+  if (files.length !== 1 || files[0].hunks.length !== 1) {
+    throw new Error("파일/헌크가 하나인 패치만 suggestion으로 변환할 수 있음");
+  }
+  if (normalizeFindingPath(getDiffFilePath(files[0])) !== getDiffFilePath(diffFile)) {
+    throw new Error(`패치 대상 파일이 finding 파일과 다름 (${getDiffFilePath(files[0])})`);
+  }
+  const lines = files[0].hunks[0].lines;
+  const first = lines.findIndex((l) => l.type !== "context");
+  const last = lines.length - 1 - [...lines].reverse().findIndex((l) => l.type !== "context");
+  if (first < 0) throw new Error("변경 라인이 없음");
+
+  let span = lines.slice(first, last + 1);
+  if (!span.some((l) => l.type !== "add")) {
+    const before = lines[first - 1];
+    const after = lines[last + 1];
+    if (before) span = [before, ...span];
+    else if (after) span = [...span, after];
+    else throw new Error("추가만 있고 기준이 될 문맥 라인이 없음");
+  }
+  const old = span.filter((l) => l.type !== "add");
+  return {
+    startLine: old[0].oldLine as number,
+    endLine: old[old.length - 1].oldLine as number,
+    original: old.map((l) => l.content),
+    lines: span.filter((l) => l.type !== "del").map((l) => l.content),
+  };
+}
+
+/**
+ * suggestion 범위가 PR diff에서 코멘트 가능한 한 헌크 안에 있고, 패치의 기존 라인이 현재 코드와 같은지 확인
+ */
+function locateSuggestion(diffFile: DiffFile, suggestion: Suggestion): CommentLocation {
+  const lines = indexCommentableLines(diffFile, "RIGHT");
+  const refs: LineRef[] = [];
+  for (let n = suggestion.startLine; n <= suggestion.endLine; n++) {
+    const ref = lines.get(n);
+    const sameHunk = ref !== undefined && (refs.length === 0 || ref.hunkIndex === refs[0].hunkIndex);
+    if (!sameHunk) {
+      throw new Error(`제안 패치 범위(${suggestion.startLine}-${suggestion.endLine})가 PR diff의 한 헌크 안에 있지 않음`);
+    }
+    if (suggestion.original[n - suggestion.startLine].trimEnd() !== ref.line.content.trimEnd()) {
+      throw new Error(`제안 패치의 ${n}번 라인이 현재 코드와 다름`);
+    }
+    refs.push(ref);
+  }
+  return { file: diffFile, side: "RIGHT", start: refs[0], end: refs[refs.length - 1] };
+}
+
+function formatLocationLabel(finding: Finding): string {
+  if (!finding.file) return "";
+  const end = finding.endLine && finding.endLine !== finding.startLine ? `-${finding.endLine}` : "";
+  return finding.startLine ? ` (\`${finding.file}:${finding.startLine}${end}\`)` : ` (\`${finding.file}\`)`;
+}
+
+function formatFindingHeading(finding: Finding): string {
+  const category = finding.category ? ` · ${CATEGORY_LABELS[finding.category]}` : "";
+  return `**${SEVERITY_ICONS[finding.severity]} ${SEVERITY_LABELS[finding.severity]}${category}** ${finding.title_ko}`;
+}
+
+function formatFooter(review: ReviewRecord, index: number): string {
+  return `<sub>review \`${review.id}\` · finding #${index + 1}</sub>`;
+}
+
+function suggestionBlock(platform: PrPlatform, suggestion: Suggestion): string {
+  const fence = platform === "github"
+    ? "```suggestion"
+    : `\`\`\`suggestion:-${suggestion.endLine - suggestion.startLine}+0`;
+  return [fence, ...suggestion.lines, "```"].join("\n");
+}
+
+function patchBlock(finding: Finding): string {
+  return ["```diff", stripCodeFence(finding.suggestion_patch_diff ?? ""), "```"].join("\n");
+}
+
+function commentBody(
+  platform: PrPlatform,
+  review: ReviewRecord,
+  index: number,
+  finding: Finding,
+  suggestion: Suggestion | null
+): string {
+  const parts = [formatFindingHeading(finding), finding.detail_ko.trim()];
+  if (suggestion) parts.push(suggestionBlock(platform, suggestion));
+  else if (finding.suggestion_patch_diff?.trim()) parts.push(patchBlock(finding));
+  parts.push(formatFooter(review, index));
+  return parts.join("\n\n");
+}
+
+/**
+ * GitLab line_code: {파일 경로 sha1}_{old_line}_{new_line}
+ */
+function toGitLabLineRef(file: DiffFile, ref: LineRef): GitLabLineRef {
+  const pathHash = crypto.createHash("sha1").update(getDiffFilePath(file)).digest("hex");
+  const oldLine = ref.line.oldLine ?? null;
+  const newLine = ref.line.newLine ?? null;
+  return {
+    line_code: `${pathHash}_${oldLine ?? 0}_${newLine ?? 0}`,
+    type: ref.line.type === "add" ? "new" : ref.line.type === "del" ? "old" : null,
+    old_line: oldLine,
+    new_line: newLine,
+  };
+}
+
+function toGitLabPosition(location: CommentLocation, refs: PrDiffRefs): NonNullable<GitLabDiscussionPayload["position"]> {
+  const { file, start, end } = location;
+  const path = getDiffFilePath(file);
+  const position: NonNullable<GitLabDiscussionPayload["position"]> = {
+    position_type: "text",
+    ...refs,
+    old_path: file.oldPath ?? path,
+    new_path: file.newPath ?? path,
+  };
+  // 추가 라인: new_line만, 삭제 라인: old_line만, 문맥 라인: 둘 다
+  if (end.line.oldLine !== undefined && end.line.type !== "add") position.old_line = end.line.oldLine;
+  if (end.line.newLine !== undefined && end.line.type !== "del") position.new_line = end.line.newLine;
+  if (start !== end) {
+    position.line_range = { start: toGitLabLineRef(file, start), end: toGitLabLineRef(file, end) };
+  }
+  return position;
+}
+
+function toGitHubComment(location: CommentLocation, body: string): GitHubReviewComment {
+  const { file, side, start, end } = location;
+  const comment: GitHubReviewComment = { path: getDiffFilePath(file), body, line: lineNumber(end, side), side };
+  if (start !== end) {
+    comment.start_line = lineNumber(start, side);
+    comment.start_side = side;
+  }
+  return comment;
+}
+
+/**
+ * finding 위치 → 코멘트 위치 (달 수 없으면 이유와 함께 null)
+ */
+function locateFinding(finding: Finding, files: DiffFile[], repoRoot: string): { location: CommentLocation | null; reason?: string } {
+  if (!finding.file) return { location: null, reason: "위치 없음" };
+  const file = findDiffFile(files, finding.file, repoRoot);
+  if (!file) return { location: null, reason: "diff에 없는 파일" };
+  if (!finding.startLine) return { location: null, reason: "라인 미지정" };
+  // 삭제된 파일은 변경 전 라인 기준
+  const side: Side = file.newPath === null ? "LEFT" : "RIGHT";
+  const endLine = Math.max(finding.startLine, finding.endLine ?? finding.startLine);
+  const range = pickRange(indexCommentableLines(file, side), finding.startLine, endLine);
+  if (!range) return { location: null, reason: "변경 범위(헌크) 밖 라인" };
+  return { location: { file, side, ...range } };
+}
+
+function buildSummaryBody(review: ReviewRecord, general: { index: number; finding: Finding; reason: string }[]): string {
+  const lines: string[] = [];
+  lines.push(`## 코드리뷰 요약 (\`${review.id}\`)`);
+  lines.push("");
+  if (review.risk) {
+    lines.push(`- 리스크: **${review.risk}**`);
+    lines.push("");
+  }
+  lines.push(review.summary_ko.trim());
+  if (general.length) {
+    lines.push("");
+    lines.push("### 라인에 달 수 없는 지적");
+    for (const { index, finding, reason } of general) {
+      lines.push("");
+      lines.push(`#### ${index + 1}. ${formatFindingHeading(finding)}${formatLocationLabel(finding)} — ${reason}`);
+      lines.push("");
+      lines.push(finding.detail_ko.trim());
+      if (finding.suggestion_patch_diff?.trim()) {
+        lines.push("");
+        lines.push(patchBlock(finding));
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 리뷰 + 리뷰 대상 diff → GitHub/GitLab payload
+ */
+export function buildPrComments(review: ReviewRecord, files: DiffFile[], refs: PrDiffRefs, repoRoot: string): PrCommentExport {
+  const comments: GitHubReviewComment[] = [];
+  const discussions: GitLabDiscussionPayload[] = [];
+  const general: { index: number; finding: Finding; reason: string }[] = [];
+  const patchNotes: PrCommentExport["patchNotes"] = [];
+  let suggestions = 0;
+
+  review.findings.forEach((finding, index) => {
+    let { location, reason } = locateFinding(finding, files, repoRoot);
+    let suggestion: Suggestion | null = null;
+
+    if (finding.suggestion_patch_diff?.trim() && finding.file) {
+      const diffFile = findDiffFile(files, finding.file, repoRoot);
+      try {
+        if (!diffFile || diffFile.newPath === null) throw new Error("diff에 없거나 삭제된 파일");
+        const parsed = parseSuggestion(finding, diffFile);
+        // suggestion은 바꿀 라인에 달아야 하므로 finding 위치 대신 패치 범위 사용
+        location = locateSuggestion(diffFile, parsed);
+        reason = undefined;
+        suggestion = parsed;
+        suggestions++;
+      } catch (err: any) {
+        patchNotes.push({ index: index + 1, title: finding.title_ko, reason: err?.message ?? String(err) });
+      }
+    }
+
+    if (!location) {
+      general.push({ index, finding, reason: reason ?? "위치 없음" });
+      return;
+    }
+    comments.push(toGitHubComment(location, commentBody("github", review, index, finding, suggestion)));
+    discussions.push({ body: commentBody("gitlab", review, index, finding, suggestion), position: toGitLabPosition(location, refs) });
+  });
+
+  const summary = buildSummaryBody(review, general);
+  return {
+    refs,
+    github: { commit_id: refs.head_sha, event: "COMMENT", body: summary, comments },
+    gitlab: [{ body: summary }, ...discussions],
+    inline: comments.length,
+    general: general.map(({ index, finding, reason }) => ({ index: index + 1, title: finding.title_ko, reason })),
+    suggestions,
+    patchNotes,
+  };
+}
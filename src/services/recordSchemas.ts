@@ -0,0 +1,267 @@
+import { z } from "zod";
+
+import type { ReviewRecord } from "./storage.js";
+import type { Task } from "./taskStorage.js";
+
+/**
+ * 저장된 리뷰/Task JSON의 스키마 버전, 읽기 시 검증, 순방향 마이그레이션
+ *
+ * - schema_version이 없는 레코드는 1 (버전 필드 도입 이전)
+ * - 읽을 때 현재 버전까지 메모리에서 마이그레이션한 뒤 zod로 검증 (파일은 다음 저장 또는 storage.doctor fix 때 갱신)
+ * - 검증에 실패한 레코드는 에러 → storage.doctor로 확인/복구
+ */
+
+export const REVIEW_SCHEMA_VERSION = 2;
+export const TASK_SCHEMA_VERSION = 2;
+
+const CATEGORIES = [
+  "readability",
+  "predictability",
+  "cohesion",
+  "coupling",
+  "micro_perspective",
+  "intent_clarity",
+] as const;
+
+const SEVERITIES = ["suggestion", "recommendation", "improvement", "required", "needs_confirmation"] as const;
+
+const TASK_STATUSES = ["pending", "in_progress", "completed", "cancelled"] as const;
+
+// 평가 라벨 도입 이전의 high/medium/low 계열 값 → 현재 평가 라벨
+const LEGACY_SEVERITIES: Record<string, (typeof SEVERITIES)[number]> = {
+  critical: "required",
+  high: "required",
+  medium: "improvement",
+  low: "suggestion",
+  info: "suggestion",
+};
+
+const SeveritySchema = z.enum(SEVERITIES);
+const CategorySchema = z.enum(CATEGORIES);
+
+const FindingRecordSchema = z.object({
+  severity: SeveritySchema,
+  category: CategorySchema.optional(),
+  file: z.string().optional(),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  title_ko: z.string(),
+  detail_ko: z.string(),
+}).passthrough();
+
+const CriteriaFeedbackItemRecordSchema = z.object({
+  label: SeveritySchema.optional(),
+  improve: z.array(z.string()),
+}).passthrough();
+
+const ReviewRecordSchema = z.object({
+  id: z.string().min(1),
+  created_at: z.string().min(1),
+  schema_version: z.literal(REVIEW_SCHEMA_VERSION),
+  revision: z.number().int().min(0).optional(),
+  target: z.object({
+    base: z.string(),
+    head: z.string(),
+    mode: z.enum(["three_dot", "two_dot", "working_tree", "staged", "commit"]).optional(),
+    refs: z.object({
+      base_sha: z.string(),
+      start_sha: z.string(),
+      head_sha: z.string(),
+    }).optional(),
+  }).passthrough(),
+  summary_ko: z.string(),
+  risk: z.enum(["low", "medium", "high"]).optional(),
+  criteria_feedback: z.object(
+    Object.fromEntries(CATEGORIES.map((c) => [c, CriteriaFeedbackItemRecordSchema.optional()]))
+  ).passthrough().optional(),
+  findings: z.array(FindingRecordSchema),
+  check_results: z.array(z.object({
+    id: z.string(),
+    result: z.enum(["pass", "fail", "na"]),
+  }).passthrough()).optional(),
+}).passthrough();
+
+const TaskRecordSchema = z.object({
+  id: z.string().min(1),
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+  schema_version: z.literal(TASK_SCHEMA_VERSION),
+  revision: z.number().int().min(0).optional(),
+  status: z.enum(TASK_STATUSES),
+  title: z.string(),
+  description: z.string(),
+  severity: SeveritySchema,
+  category: z.string().optional(),
+  file: z.string().optional(),
+  startLine: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  depends_on: z.array(z.string()).optional(),
+  blocks: z.array(z.string()).optional(),
+  history: z.array(z.object({
+    from: z.enum(TASK_STATUSES).nullable(),
+    to: z.enum(TASK_STATUSES),
+    at: z.string(),
+    tool: z.string(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+type Migration = {
+  /** 이 마이그레이션 적용 후 버전 */
+  to: number;
+  description: string;
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>;
+};
+
+/** JSON 객체인지 (배열/null 제외) */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function migrateSeverity(value: unknown): unknown {
+  return typeof value === "string" && LEGACY_SEVERITIES[value.toLowerCase()]
+    ? LEGACY_SEVERITIES[value.toLowerCase()]
+    : value;
+}
+
+// "micro-perspective", "Intent Clarity" 같은 표기 → micro_perspective, intent_clarity
+function migrateCategory(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return (CATEGORIES as readonly string[]).includes(normalized) ? normalized : value;
+}
+
+const REVIEW_MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "평가 라벨(high/medium/low → 현재 라벨)과 카테고리 표기 정규화",
+    migrate: (record) => ({
+      ...record,
+      findings: (Array.isArray(record.findings) ? record.findings : []).map((f: unknown) =>
+        isObject(f)
+          ? {
+            ...f,
+            severity: migrateSeverity(f.severity),
+            ...(f.category !== undefined ? { category: migrateCategory(f.category) } : {}),
+          }
+          : f
+      ),
+      ...(isObject(record.criteria_feedback)
+        ? {
+          criteria_feedback: Object.fromEntries(
+            Object.entries(record.criteria_feedback).map(([key, item]) => [
+              migrateCategory(key) as string,
+              isObject(item) && item.label !== undefined ? { ...item, label: migrateSeverity(item.label) } : item,
+            ])
+          ),
+        }
+        : {}),
+    }),
+  },
+];
+
+const TASK_MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "평가 라벨(high/medium/low → 현재 라벨) 정규화",
+    migrate: (record) => ({ ...record, severity: migrateSeverity(record.severity) }),
+  },
+];
+
+function applyMigrations(
+  record: Record<string, unknown>,
+  migrations: Migration[]
+): { record: Record<string, unknown>; applied: string[] } {
+  let current = record;
+  const applied: string[] = [];
+  const from = typeof record.schema_version === "number" ? record.schema_version : 1;
+  for (const m of migrations) {
+    if (m.to <= from) continue;
+    current = { ...m.migrate(current), schema_version: m.to };
+    applied.push(`v${m.to - 1} → v${m.to}: ${m.description}`);
+  }
+  return { record: current, applied };
+}
+
+/**
+ * zod 검증 오류 → "필드: 메시지" 목록
+ */
+export function describeSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+export type RecordCheck<T> =
+  | { ok: true; record: T; migrations: string[] }
+  | { ok: false; record: Record<string, unknown>; migrations: string[]; issues: string[] };
+
+const NOT_OBJECT_ISSUE = "레코드가 JSON 객체가 아닙니다";
+
+/** 이 서버보다 새 스키마 버전이면 이슈 메시지 */
+function newerSchemaIssue(record: Record<string, unknown>, currentVersion: number): string | null {
+  return typeof record.schema_version === "number" && record.schema_version > currentVersion
+    ? `이 서버보다 새 스키마 버전입니다 (v${record.schema_version})`
+    : null;
+}
+
+/**
+ * 리뷰 레코드 마이그레이션 + 검증 (파일에 쓰지 않음)
+ */
+export function checkReviewRecord(raw: unknown): RecordCheck<ReviewRecord> {
+  if (!isObject(raw)) {
+    return { ok: false, record: {}, migrations: [], issues: [NOT_OBJECT_ISSUE] };
+  }
+  const newer = newerSchemaIssue(raw, REVIEW_SCHEMA_VERSION);
+  if (newer) {
+    return { ok: false, record: raw, migrations: [], issues: [newer] };
+  }
+  const { record, applied } = applyMigrations(raw, REVIEW_MIGRATIONS);
+  const parsed = ReviewRecordSchema.safeParse(record);
+  return parsed.success
+    ? { ok: true, record: record as ReviewRecord, migrations: applied }
+    : { ok: false, record, migrations: applied, issues: describeSchemaIssues(parsed.error) };
+}
+
+/**
+ * Task 레코드 마이그레이션 + 검증 (파일에 쓰지 않음)
+ */
+export function checkTaskRecord(raw: unknown): RecordCheck<Task> {
+  if (!isObject(raw)) {
+    return { ok: false, record: {}, migrations: [], issues: [NOT_OBJECT_ISSUE] };
+  }
+  const newer = newerSchemaIssue(raw, TASK_SCHEMA_VERSION);
+  if (newer) {
+    return { ok: false, record: raw, migrations: [], issues: [newer] };
+  }
+  const { record, applied } = applyMigrations(raw, TASK_MIGRATIONS);
+  const parsed = TaskRecordSchema.safeParse(record);
+  return parsed.success
+    ? { ok: true, record: record as Task, migrations: applied }
+    : { ok: false, record, migrations: applied, issues: describeSchemaIssues(parsed.error) };
+}
+
+/** 원본 레코드의 id (오류 메시지용, 없으면 "(unknown)") */
+export function recordIdOf(raw: unknown): string {
+  return typeof raw === "object" && raw && "id" in raw && typeof raw.id === "string" ? raw.id : "(unknown)";
+}
+
+/**
+ * 읽기용: 마이그레이션 + 검증, 실패하면 에러
+ */
+export function parseStoredReview(raw: unknown, id: string): ReviewRecord {
+  const result = checkReviewRecord(raw);
+  if (!result.ok) {
+    throw new Error(`저장된 리뷰가 올바르지 않습니다 (${id}): ${result.issues.join("; ")}. storage.doctor로 확인하세요.`);
+  }
+  return result.record;
+}
+
+export function parseStoredTask(raw: unknown, id: string): Task {
+  const result = checkTaskRecord(raw);
+  if (!result.ok) {
+    throw new Error(`저장된 Task가 올바르지 않습니다 (${id}): ${result.issues.join("; ")}. storage.doctor로 확인하세요.`);
+  }
+  return result.record;
+}
+
+export const KNOWN_SEVERITIES: readonly string[] = SEVERITIES;
+export const KNOWN_CATEGORIES: readonly string[] = CATEGORIES;
+export const KNOWN_TASK_STATUSES: readonly string[] = TASK_STATUSES;
@@ -0,0 +1,109 @@
+import path from "node:path";
+
+import { createJsonRecordStore } from "./jsonRecordStore.js";
+import { createSqliteRecordStore } from "./sqliteRecordStore.js";
+import { reviewIndexEntryFromRecord, type ReviewIndexEntry } from "./storage.js";
+import { taskIndexEntryFromRecord, type TaskIndexEntry } from "./taskStorage.js";
+
+/**
+ * 리뷰/Task 레코드 저장소 인터페이스
+ *
+ * storage.ts/taskStorage.ts는 이 인터페이스로만 레코드를 읽고 씁니다 (도구/리소스/프롬프트는 env.getStore()로 받은 저장소 사용).
+ * - json: 레코드당 JSON 파일 + {DATA_DIR}/index (기본)
+ * - sqlite: 로컬 DB 파일 하나 (node:sqlite, Node.js 22.13 이상)
+ *
+ * 저장소는 원본 레코드(마이그레이션/검증 전)와 목록용 인덱스 항목만 다룹니다.
+ * 스키마 마이그레이션/검증, revision 확인은 호출하는 쪽(storage.ts, taskStorage.ts)의 책임입니다.
+ * 인덱스 항목은 레코드를 저장할 때 ENTRY_BUILDERS로 계산합니다.
+ */
+
+export type StorageBackend = "json" | "sqlite";
+
+const STORAGE_BACKENDS: readonly StorageBackend[] = ["json", "sqlite"];
+
+export type RecordKind = "reviews" | "tasks";
+
+export type StoredRecord = { id: string };
+
+export type IndexEntry = { id: string };
+
+export type IndexEntryByKind = {
+  reviews: ReviewIndexEntry;
+  tasks: TaskIndexEntry;
+};
+
+/** 원본 레코드 → 인덱스 항목 (마이그레이션/검증 포함, 실패하면 에러) */
+export type EntryBuilders = { [K in RecordKind]: (raw: unknown) => IndexEntryByKind[K] };
+
+const ENTRY_BUILDERS: EntryBuilders = {
+  reviews: reviewIndexEntryFromRecord,
+  tasks: taskIndexEntryFromRecord,
+};
+
+export type RecordStore = {
+  backend: StorageBackend;
+  /** 리뷰 마크다운 등 파일 산출물을 쓰는 경로 */
+  dataDir: string;
+  /** 레코드 저장 위치 (json: DATA_DIR, sqlite: DB 파일 경로) */
+  location: string;
+  /** 원본 레코드 (없으면 에러) */
+  read(kind: RecordKind, id: string): Promise<unknown>;
+  /** 레코드가 있는지 */
+  has(kind: RecordKind, id: string): Promise<boolean>;
+  /** 신규 레코드 저장 + 인덱스 반영 (같은 id가 있으면 에러) */
+  insert(kind: RecordKind, record: StoredRecord): Promise<void>;
+  /**
+   * 잠금(트랜잭션) 안에서 최신 원본 → update → 저장 + 인덱스 반영
+   * - update에서 던진 에러는 그대로 전달 (저장하지 않음)
+   */
+  modify<T extends StoredRecord>(kind: RecordKind, id: string, update: (raw: unknown) => T): Promise<T>;
+  /** 레코드 삭제, 삭제한 원본 반환 (없으면 에러) */
+  remove(kind: RecordKind, id: string): Promise<unknown>;
+  /** 모든 레코드 id (최신순) */
+  ids(kind: RecordKind): Promise<string[]>;
+  /** 인덱스 항목 (최신순) */
+  entries<K extends RecordKind>(kind: K): Promise<IndexEntryByKind[K][]>;
+  /** 인덱스 전체 재생성 (읽지 못한 레코드는 errors에 기록) */
+  reindex(kind: RecordKind): Promise<{ count: number; errors: string[] }>;
+};
+
+export type StoreConfig = {
+  backend: StorageBackend;
+  dataDir: string;
+  /** sqlite DB 파일 (미지정시 {DATA_DIR}/review.db) */
+  sqlitePath?: string;
+};
+
+export function getDefaultSqlitePath(dataDir: string): string {
+  return path.join(dataDir, "review.db");
+}
+
+// 같은 설정이면 같은 저장소 재사용 (sqlite 연결을 도구 호출마다 열지 않도록)
+const stores = new Map<string, RecordStore>();
+
+/**
+ * 설정에 맞는 저장소 (같은 설정이면 캐시된 인스턴스)
+ */
+export function openRecordStore(config: StoreConfig): RecordStore {
+  const location = config.backend === "sqlite" ? config.sqlitePath ?? getDefaultSqlitePath(config.dataDir) : config.dataDir;
+  const key = `${config.backend}:${config.dataDir}:${location}`;
+  let store = stores.get(key);
+  if (!store) {
+    store = config.backend === "sqlite"
+      ? createSqliteRecordStore(config.dataDir, location, ENTRY_BUILDERS)
+      : createJsonRecordStore(config.dataDir, ENTRY_BUILDERS);
+    stores.set(key, store);
+  }
+  return store;
+}
+
+export function parseStorageBackend(value: string | undefined): StorageBackend {
+  if (!value) return "json";
+  const normalized = value.trim().toLowerCase();
+  if ((STORAGE_BACKENDS as readonly string[]).includes(normalized)) return normalized as StorageBackend;
+  throw new Error(`알 수 없는 STORAGE_BACKEND입니다: ${value} (json 또는 sqlite)`);
+}
+
+export function getRecordLabel(kind: RecordKind): string {
+  return kind === "reviews" ? "리뷰" : "Task";
+}
@@ -0,0 +1,179 @@
+import { formatDiffLabel } from "./gitDiff.js";
+import { getFindingFingerprint, normalizeFindingTitle } from "./findingFingerprint.js";
+import { normalizeFindingPath } from "./findingValidator.js";
+import { describeRulesChange } from "./rules.js";
+import type { Finding, ReviewRecord, SeverityType } from "./storage.js";
+
+export type FindingRef = {
+  /** 리뷰 내 finding 인덱스 (0부터) */
+  index: number;
+  fingerprint: string;
+  severity: SeverityType;
+  category?: string;
+  file?: string;
+  startLine?: number;
+  title_ko: string;
+};
+
+// 매칭 기준 (앞쪽일수록 강한 매칭)
+export type FindingMatchKind = "fingerprint" | "code" | "title";
+
+export type FindingMatch = {
+  before: FindingRef;
+  after: FindingRef;
+  matched_by: FindingMatchKind;
+};
+
+export type ReviewComparison = {
+  before: { id: string; created_at: string; target: string };
+  after: { id: string; created_at: string; target: string };
+  /** 이전 리뷰에만 있는 finding (해결됨) */
+  resolved: FindingRef[];
+  /** 이후 리뷰에만 있는 finding (새로 발견) */
+  introduced: FindingRef[];
+  /** 양쪽에 모두 있는 finding (남아 있음) */
+  persisting: FindingMatch[];
+  /** 두 리뷰의 규칙이 다르면 변경 내용 */
+  rules_change: string | null;
+};
+
+const MATCH_KIND_LABELS: Record<FindingMatchKind, string> = {
+  fingerprint: "지문 일치",
+  code: "같은 코드",
+  title: "같은 제목",
+};
+
+function toRef(finding: Finding, index: number): FindingRef {
+  return {
+    index,
+    fingerprint: getFindingFingerprint(finding),
+    severity: finding.severity,
+    category: finding.category,
+    file: finding.file,
+    startLine: finding.startLine,
+    title_ko: finding.title_ko,
+  };
+}
+
+/**
+ * 매칭 기준별 키 (키를 만들 수 없으면 null)
+ * - code: 주변 코드가 같으면 제목이 달라도 같은 이슈로 간주
+ * - title: 코드가 바뀌었어도 같은 파일/카테고리/제목이면 같은 이슈로 간주
+ */
+function matchKey(finding: Finding, kind: FindingMatchKind): string | null {
+  const file = finding.file ? normalizeFindingPath(finding.file) : "";
+  const category = finding.category ?? "";
+  if (kind === "fingerprint") return getFindingFingerprint(finding);
+  if (kind === "code") return finding.code_hash ? `${file}\n${category}\n${finding.code_hash}` : null;
+  return `${file}\n${category}\n${normalizeFindingTitle(finding.title_ko)}`;
+}
+
+/**
+ * 두 리뷰의 findings 비교
+ * - 지문 → 같은 코드 → 같은 제목 순으로 1:1 매칭
+ */
+export function compareReviews(before: ReviewRecord, after: ReviewRecord): ReviewComparison {
+  const remainingBefore = new Set(before.findings.map((_, i) => i));
+  const remainingAfter = new Set(after.findings.map((_, i) => i));
+  const persisting: FindingMatch[] = [];
+
+  for (const kind of ["fingerprint", "code", "title"] as FindingMatchKind[]) {
+    const candidates = new Map<string, number[]>();
+    for (const i of remainingBefore) {
+      const key = matchKey(before.findings[i], kind);
+      if (key === null) continue;
+      candidates.set(key, [...(candidates.get(key) ?? []), i]);
+    }
+
+    for (const j of [...remainingAfter]) {
+      const key = matchKey(after.findings[j], kind);
+      const i = key === null ? undefined : candidates.get(key)?.shift();
+      if (i === undefined) continue;
+      persisting.push({
+        before: toRef(before.findings[i], i),
+        after: toRef(after.findings[j], j),
+        matched_by: kind,
+      });
+      remainingBefore.delete(i);
+      remainingAfter.delete(j);
+    }
+  }
+
+  persisting.sort((a, b) => a.after.index - b.after.index);
+
+  return {
+    before: {
+      id: before.id,
+      created_at: before.created_at,
+      target: formatDiffLabel(before.target.mode, before.target.base, before.target.head),
+    },
+    after: {
+      id: after.id,
+      created_at: after.created_at,
+      target: formatDiffLabel(after.target.mode, after.target.base, after.target.head),
+    },
+    resolved: [...remainingBefore].map((i) => toRef(before.findings[i], i)),
+    introduced: [...remainingAfter].map((j) => toRef(after.findings[j], j)),
+    persisting,
+    rules_change: before.rules && after.rules ? describeRulesChange(before.rules, after.rules) : null,
+  };
+}
+
+function formatRef(ref: FindingRef): string {
+  const where = ref.file ? `\`${ref.file}${ref.startLine ? `:${ref.startLine}` : ""}\`` : "(파일 미지정)";
+  return `[${ref.severity}] ${ref.title_ko} — ${where} (#${ref.index + 1})`;
+}
+
+/**
+ * 비교 결과 마크다운
+ */
+export function formatComparisonMarkdown(comparison: ReviewComparison): string {
+  const { before, after, resolved, introduced, persisting } = comparison;
+  const lines: string[] = [];
+  lines.push("# 리뷰 비교");
+  lines.push("");
+  lines.push(`- 이전: ${before.id} (${before.created_at}) | ${before.target}`);
+  lines.push(`- 이후: ${after.id} (${after.created_at}) | ${after.target}`);
+  if (before.created_at > after.created_at) {
+    lines.push("- ⚠️ 이전 리뷰가 이후 리뷰보다 나중에 작성되었습니다. 순서를 확인하세요.");
+  }
+  if (comparison.rules_change) {
+    lines.push(`- ⚠️ 두 리뷰의 규칙이 다릅니다: ${comparison.rules_change}`);
+  }
+  lines.push("");
+  lines.push(`> ✅ 해결: ${resolved.length} | 🆕 신규: ${introduced.length} | ⏳ 유지: ${persisting.length}`);
+  lines.push("");
+
+  lines.push(`## ✅ 해결됨 (${resolved.length})`);
+  lines.push("");
+  if (resolved.length) {
+    for (const ref of resolved) lines.push(`- ${formatRef(ref)}`);
+  } else {
+    lines.push("- (없음)");
+  }
+  lines.push("");
+
+  lines.push(`## 🆕 새로 발견 (${introduced.length})`);
+  lines.push("");
+  if (introduced.length) {
+    for (const ref of introduced) lines.push(`- ${formatRef(ref)}`);
+  } else {
+    lines.push("- (없음)");
+  }
+  lines.push("");
+
+  lines.push(`## ⏳ 남아 있음 (${persisting.length})`);
+  lines.push("");
+  if (persisting.length) {
+    for (const match of persisting) {
+      const severityChange = match.before.severity !== match.after.severity
+        ? ` | 평가 변경: ${match.before.severity} → ${match.after.severity}`
+        : "";
+      lines.push(`- ${formatRef(match.after)} | ${MATCH_KIND_LABELS[match.matched_by]}${severityChange}`);
+    }
+  } else {
+    lines.push("- (없음)");
+  }
+
+  return lines.join("\n");
+}
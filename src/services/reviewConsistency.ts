@@ -0,0 +1,172 @@
+import type { CategoryType, CriteriaFeedback, Finding, SeverityType } from "./storage.js";
+
+/**
+ * 리뷰 템플릿(templates/prompts/review/index.md)의 출력 규칙 검사
+ * - criteria_feedback.improve의 모든 항목은 같은 category의 finding을 가져야 함
+ * - 모든 finding은 criteria_feedback의 어떤 기준에서 파생되었는지 추적 가능해야 함
+ * - findings는 severity가 높은 것(required)부터 정렬
+ */
+
+export type ConsistencyIssue =
+  | { kind: "improve_without_finding"; category: CategoryType; item: string }
+  | { kind: "finding_without_criteria"; index: number; category?: CategoryType; title: string }
+  | { kind: "severity_order"; index: number; severity: SeverityType; previousSeverity: SeverityType };
+
+// 정렬 순서 (작을수록 앞). needs_confirmation은 별도 라벨이라 정렬 검사에서 제외
+export const SEVERITY_RANK: Record<Exclude<SeverityType, "needs_confirmation">, number> = {
+  required: 0,
+  improvement: 1,
+  recommendation: 2,
+  suggestion: 3,
+};
+
+const CRITERIA_KEYS: CategoryType[] = [
+  "readability", "predictability", "cohesion", "coupling", "micro_perspective", "intent_clarity"
+];
+
+/**
+ * 한국어/영문 공통 토큰화 (2글자 이상 단어만)
+ */
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}_]+/u)
+      .filter((t) => t.length >= 2)
+  );
+}
+
+function overlapScore(a: Set<string>, b: Set<string>): number {
+  let score = 0;
+  for (const t of a) {
+    if (b.has(t)) score += 1;
+  }
+  return score;
+}
+
+// improve 항목과 finding을 짝짓는 데 필요한 최소 겹치는 단어 수
+const MIN_MATCH_OVERLAP = 1;
+
+/**
+ * 같은 category 안에서 improve 항목과 finding을 1:1로 짝지음
+ * - 텍스트가 많이 겹치는 finding부터 배정, 남는 improve 항목이 "finding 없음"
+ * - 겹치는 단어가 MIN_MATCH_OVERLAP 미만인 finding과는 짝짓지 않음
+ */
+function findUnmatchedImproveItems(items: string[], findings: Finding[]): string[] {
+  const findingTokens = findings.map((f) => tokenize(`${f.title_ko} ${f.detail_ko}`));
+  const used = new Set<number>();
+  const unmatched: string[] = [];
+
+  const scored = items.map((item) => {
+    const tokens = tokenize(item);
+    const best = Math.max(0, ...findingTokens.map((ft) => overlapScore(tokens, ft)));
+    return { item, tokens, best };
+  });
+  // 매칭 근거가 확실한 항목부터 배정
+  scored.sort((a, b) => b.best - a.best);
+
+  for (const { item, tokens } of scored) {
+    let bestIndex = -1;
+    let bestScore = MIN_MATCH_OVERLAP - 1;
+    findingTokens.forEach((ft, i) => {
+      if (used.has(i)) return;
+      const score = overlapScore(tokens, ft);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex < 0) {
+      unmatched.push(item);
+    } else {
+      used.add(bestIndex);
+    }
+  }
+
+  return unmatched;
+}
+
+/**
+ * criteria_feedback ↔ findings 일관성 검사
+ */
+export function checkReviewConsistency(review: {
+  criteria_feedback?: CriteriaFeedback;
+  findings: Finding[];
+}): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const criteria = review.criteria_feedback ?? {};
+
+  for (const category of CRITERIA_KEYS) {
+    const items = criteria[category]?.improve ?? [];
+    if (!items.length) continue;
+    const related = review.findings.filter((f) => f.category === category);
+    for (const item of findUnmatchedImproveItems(items, related)) {
+      issues.push({ kind: "improve_without_finding", category, item });
+    }
+  }
+
+  review.findings.forEach((f, index) => {
+    const hasCriteria = f.category ? (criteria[f.category]?.improve?.length ?? 0) > 0 : false;
+    if (!hasCriteria) {
+      issues.push({ kind: "finding_without_criteria", index, category: f.category, title: f.title_ko });
+    }
+  });
+
+  let previous: { severity: Exclude<SeverityType, "needs_confirmation"> } | null = null;
+  review.findings.forEach((f, index) => {
+    if (f.severity === "needs_confirmation") return;
+    if (previous && SEVERITY_RANK[f.severity] < SEVERITY_RANK[previous.severity]) {
+      issues.push({ kind: "severity_order", index, severity: f.severity, previousSeverity: previous.severity });
+    }
+    previous = { severity: f.severity };
+  });
+
+  return issues;
+}
+
+/**
+ * 호스트 모델이 그대로 따라 고칠 수 있는 수정 요청 프롬프트 생성
+ */
+export function buildConsistencyFixPrompt(issues: ConsistencyIssue[]): string {
+  const improveIssues = issues.filter((i) => i.kind === "improve_without_finding");
+  const criteriaIssues = issues.filter((i) => i.kind === "finding_without_criteria");
+  const orderIssues = issues.filter((i) => i.kind === "severity_order");
+
+  const lines: string[] = [];
+  lines.push(`⚠️ criteria_feedback ↔ findings 일관성 위반 ${issues.length}건`);
+  lines.push("");
+  lines.push("아래 문제를 수정한 리뷰 JSON으로 `review.save`를 다시 호출하라.");
+  lines.push("");
+
+  if (improveIssues.length) {
+    lines.push("### 1. finding이 없는 criteria_feedback.improve 항목");
+    lines.push("각 항목에 대해 같은 `category`의 finding을 추가하라 (file/startLine/endLine/detail_ko 포함).");
+    for (const issue of improveIssues) {
+      if (issue.kind !== "improve_without_finding") continue;
+      lines.push(`- [${issue.category}] ${issue.item}`);
+    }
+    lines.push("");
+  }
+
+  if (criteriaIssues.length) {
+    lines.push("### 2. criteria_feedback에서 추적되지 않는 finding");
+    lines.push("finding의 `category`를 올바르게 지정하고, 해당 기준의 `improve`에 대응 항목을 추가하라.");
+    for (const issue of criteriaIssues) {
+      if (issue.kind !== "finding_without_criteria") continue;
+      lines.push(`- finding #${issue.index + 1} (category: ${issue.category ?? "없음"}) ${issue.title}`);
+    }
+    lines.push("");
+  }
+
+  if (orderIssues.length) {
+    lines.push("### 3. severity 정렬 위반");
+    lines.push("findings를 required → improvement → recommendation → suggestion 순으로 정렬하라 (needs_confirmation은 위치 무관).");
+    for (const issue of orderIssues) {
+      if (issue.kind !== "severity_order") continue;
+      lines.push(`- finding #${issue.index + 1}: ${issue.severity}는 ${issue.previousSeverity}보다 앞에 와야 함`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n").trimEnd();
+}
@@ -0,0 +1,281 @@
+import { matchGlob } from "./glob.js";
+import type { RecordStore } from "./recordStore.js";
+import { getReview, readReviewIndex, type Finding, type ReviewIndexEntry, type ReviewRecord, type SeverityType } from "./storage.js";
+
+/**
+ * 저장된 모든 리뷰의 finding 검색 (review.search, reviews://search/{query})
+ *
+ * - 평가 라벨/카테고리/파일/기간은 리뷰 인덱스로 먼저 걸러 필요한 리뷰만 읽음
+ * - 검색어는 title_ko/detail_ko 대상, 대소문자/띄어쓰기/문장부호 무시
+ *   - 검색어 전체가 그대로 포함되거나, 공백으로 나눈 단어가 모두 포함되면 매칭
+ *   - 단어 끝의 조사(은/는/이/가/을/를 …)를 뗀 형태도 허용 ("결합도가" → "결합도")
+ * - 결과는 최신 리뷰순, 같은 리뷰 안에서는 finding 순서
+ */
+
+export type FindingSearchQuery = {
+  /** title_ko/detail_ko 검색어 */
+  text?: string;
+  /** 파일 경로 또는 glob */
+  file?: string;
+  category?: string;
+  severity?: SeverityType;
+  /** 리뷰 작성일 범위 (ISO 날짜/시각, 날짜만 쓰면 until은 그 날 끝까지 포함) */
+  since?: string;
+  until?: string;
+  cursor?: string;
+  limit?: number;
+};
+
+export type FindingSearchHit = {
+  review_id: string;
+  /** review.findings 내 위치 (0부터) */
+  finding_index: number;
+  created_at: string;
+  target: ReviewRecord["target"];
+  finding: Finding;
+  /** 검색어가 매칭된 필드 */
+  matched_in: ("title_ko" | "detail_ko")[];
+  /** detail_ko에서 검색어 주변 발췌 */
+  snippet?: string;
+};
+
+export type FindingSearchResult = {
+  hits: FindingSearchHit[];
+  /** 조건에 매칭된 전체 finding 수 */
+  total: number;
+  /** finding을 확인한 리뷰 수 (인덱스로 걸러낸 뒤) */
+  scanned_reviews: number;
+  next_cursor?: string;
+};
+
+// 단어 끝에서 떼어 볼 조사 (긴 것부터)
+const KOREAN_PARTICLES = [
+  "에서는", "으로는", "에게서", "까지", "부터", "에서", "으로", "에게", "처럼", "보다", "이나", "이랑",
+  "은", "는", "이", "가", "을", "를", "의", "에", "로", "와", "과", "도", "만", "나", "랑",
+];
+
+const SEPARATOR_RE = /[\s\p{P}\p{S}]+/gu;
+const SNIPPET_RADIUS = 40;
+
+function normalize(text: string): string {
+  return text.normalize("NFC").toLowerCase();
+}
+
+/** 비교용: 소문자 + 공백/문장부호 제거 */
+function compact(text: string): string {
+  return normalize(text).replace(SEPARATOR_RE, "");
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(SEPARATOR_RE).filter(Boolean);
+}
+
+/**
+ * 단어와 조사를 뗀 형태 (뗀 뒤 두 글자 이상 남을 때만, "평가" → "평" 같은 과매칭 방지)
+ */
+function tokenVariants(token: string): string[] {
+  const variants = [token];
+  if (!/[가-힣]$/.test(token)) return variants;
+  for (const particle of KOREAN_PARTICLES) {
+    if (token.endsWith(particle) && token.length - particle.length >= 2) {
+      variants.push(token.slice(0, -particle.length));
+      break;
+    }
+  }
+  return variants;
+}
+
+type TextMatcher = {
+  /** 매칭 여부 */
+  test(text: string): boolean;
+  /** 발췌 위치를 찾을 때 쓸 단어 */
+  terms: string[];
+};
+
+function createTextMatcher(query: string): TextMatcher | null {
+  const phrase = compact(query);
+  const tokens = tokenize(query).map(tokenVariants);
+  if (!phrase || !tokens.length) return null;
+  return {
+    test(text) {
+      const haystack = compact(text);
+      if (haystack.includes(phrase)) return true;
+      return tokens.every((variants) => variants.some((v) => haystack.includes(v)));
+    },
+    terms: tokens.flat(),
+  };
+}
+
+function makeSnippet(text: string, terms: string[]): string | undefined {
+  const lower = normalize(text);
+  const at = terms
+    .map((term) => lower.indexOf(term))
+    .filter((i) => i >= 0)
+    .sort((a, b) => a - b)[0];
+  if (at === undefined) return undefined;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS * 2);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * 날짜 범위 경계 → epoch ms
+ * - "YYYY-MM-DD"만 쓴 until은 그 날 끝까지 포함 (UTC)
+ */
+function parseDateBound(value: string, name: "since" | "until"): number {
+  const trimmed = value.trim();
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  const ms = Date.parse(dateOnly ? `${trimmed}T00:00:00.000Z` : trimmed);
+  if (Number.isNaN(ms)) {
+    throw new Error(`${name} 날짜 형식이 올바르지 않습니다: ${value} (예: 2025-01-31 또는 2025-01-31T09:00:00Z)`);
+  }
+  return dateOnly && name === "until" ? ms + 24 * 60 * 60 * 1000 - 1 : ms;
+}
+
+/**
+ * since/until → epoch ms 범위 (형식이 틀리거나 since가 until보다 늦으면 에러)
+ */
+export function parseDateRange(since?: string, until?: string): { since?: number; until?: number } {
+  const range = {
+    since: since ? parseDateBound(since, "since") : undefined,
+    until: until ? parseDateBound(until, "until") : undefined,
+  };
+  if (range.since !== undefined && range.until !== undefined && range.since > range.until) {
+    throw new Error(`since(${since})가 until(${until})보다 늦습니다.`);
+  }
+  return range;
+}
+
+/** 작성 시각이 범위 안인지 */
+export function isInDateRange(createdAt: string, range: { since?: number; until?: number }): boolean {
+  const created = Date.parse(createdAt);
+  if (range.since !== undefined && !(created >= range.since)) return false;
+  if (range.until !== undefined && !(created <= range.until)) return false;
+  return true;
+}
+
+function matchesFile(file: string | undefined, pattern: string): boolean {
+  return file !== undefined && (file === pattern || matchGlob(file, pattern));
+}
+
+function matchesEntry(entry: ReviewIndexEntry, query: FindingSearchQuery, range: { since?: number; until?: number }): boolean {
+  if (query.severity && !entry.severities.includes(query.severity)) return false;
+  if (query.category && !entry.categories.includes(query.category)) return false;
+  if (query.file && !entry.files.some((f) => matchesFile(f, query.file!))) return false;
+  return isInDateRange(entry.created_at, range);
+}
+
+function toHits(review: ReviewRecord, query: FindingSearchQuery, matcher: TextMatcher | null): FindingSearchHit[] {
+  const hits: FindingSearchHit[] = [];
+  review.findings.forEach((finding, index) => {
+    if (query.severity && finding.severity !== query.severity) return;
+    if (query.category && finding.category !== query.category) return;
+    if (query.file && !matchesFile(finding.file, query.file)) return;
+
+    const matched_in: FindingSearchHit["matched_in"] = [];
+    if (matcher) {
+      if (matcher.test(finding.title_ko)) matched_in.push("title_ko");
+      if (matcher.test(finding.detail_ko)) matched_in.push("detail_ko");
+      // 제목/본문을 합쳐야 모든 단어가 나오는 경우
+      if (!matched_in.length && !matcher.test(`${finding.title_ko}\n${finding.detail_ko}`)) return;
+    }
+    hits.push({
+      review_id: review.id,
+      finding_index: index,
+      created_at: review.created_at,
+      target: review.target,
+      finding,
+      matched_in,
+      snippet: matcher ? makeSnippet(finding.detail_ko, matcher.terms) : undefined,
+    });
+  });
+  return hits;
+}
+
+function hitKey(hit: FindingSearchHit): string {
+  return `${hit.review_id}#${hit.finding_index}`;
+}
+
+/**
+ * cursor("{review_id}#{finding_index}") 이후의 hit인지 (최신 리뷰순 → finding 순서)
+ */
+function isAfterCursor(hit: FindingSearchHit, cursor: string): boolean {
+  const sep = cursor.lastIndexOf("#");
+  const reviewId = sep >= 0 ? cursor.slice(0, sep) : cursor;
+  const index = sep >= 0 ? Number(cursor.slice(sep + 1)) : -1;
+  const order = hit.review_id.localeCompare(reviewId);
+  return order < 0 || (order === 0 && hit.finding_index > index);
+}
+
+export async function searchFindings(store: RecordStore, query: FindingSearchQuery): Promise<FindingSearchResult> {
+  const range = parseDateRange(query.since, query.until);
+  const matcher = query.text ? createTextMatcher(query.text) : null;
+
+  const entries = (await readReviewIndex(store)).filter((e) => matchesEntry(e, query, range));
+  const hits: FindingSearchHit[] = [];
+  for (const entry of entries) {
+    let review: ReviewRecord;
+    try {
+      review = await getReview(store, entry.id);
+    } catch {
+      // 인덱스 조회 이후 삭제됨
+      continue;
+    }
+    hits.push(...toHits(review, query, matcher));
+  }
+
+  const rest = query.cursor ? hits.filter((h) => isAfterCursor(h, query.cursor!)) : hits;
+  const page = rest.slice(0, Math.max(1, query.limit ?? 20));
+  return {
+    hits: page,
+    total: hits.length,
+    scanned_reviews: entries.length,
+    next_cursor: rest.length > page.length ? hitKey(page[page.length - 1]) : undefined,
+  };
+}
+
+function formatLocation(finding: Finding): string {
+  if (!finding.file) return "(위치 없음)";
+  if (!finding.startLine) return finding.file;
+  const end = finding.endLine && finding.endLine !== finding.startLine ? `-${finding.endLine}` : "";
+  return `${finding.file}:${finding.startLine}${end}`;
+}
+
+function describeSearchQuery(query: FindingSearchQuery): string {
+  const parts: string[] = [];
+  if (query.text) parts.push(`검색어="${query.text}"`);
+  if (query.file) parts.push(`file=${query.file}`);
+  if (query.category) parts.push(`category=${query.category}`);
+  if (query.severity) parts.push(`severity=${query.severity}`);
+  if (query.since) parts.push(`since=${query.since}`);
+  if (query.until) parts.push(`until=${query.until}`);
+  return parts.length ? parts.join(", ") : "(조건 없음)";
+}
+
+export function formatSearchResult(query: FindingSearchQuery, result: FindingSearchResult): string {
+  const lines: string[] = [];
+  lines.push("# finding 검색 결과");
+  lines.push("");
+  lines.push(`- 조건: ${describeSearchQuery(query)}`);
+  lines.push(`- 확인한 리뷰: ${result.scanned_reviews}개`);
+  if (!result.hits.length) {
+    lines.push("");
+    lines.push("ℹ️ 조건에 맞는 finding이 없습니다.");
+    return lines.join("\n");
+  }
+  lines.push(`- 매칭: 총 ${result.total}개 중 ${result.hits.length}개 (최신 리뷰순)`);
+  lines.push("");
+  for (const hit of result.hits) {
+    const f = hit.finding;
+    lines.push(
+      `- \`${hit.review_id}\` finding #${hit.finding_index + 1} | ${f.severity}${f.category ? ` | ${f.category}` : ""} | ${formatLocation(f)} | ${f.title_ko}`
+    );
+    if (hit.snippet) lines.push(`  > ${hit.snippet}`);
+  }
+  if (result.next_cursor) {
+    lines.push("");
+    lines.push(`➡️ 다음 페이지: \`cursor: "${result.next_cursor}"\``);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,338 @@
+import path from "node:path";
+
+import { formatDiffLabel } from "./gitDiff.js";
+import type { RecordStore } from "./recordStore.js";
+import { isInDateRange, parseDateRange } from "./reviewSearch.js";
+import {
+  CATEGORY_LABELS,
+  SEVERITY_ICONS,
+  SEVERITY_LABELS,
+  getReview,
+  readReviewIndex,
+  type CategoryType,
+  type ReviewRecord,
+  type SeverityType,
+} from "./storage.js";
+
+/**
+ * 리뷰 이력 기반 코드 품질 통계 (review.stats, reviews://stats)
+ *
+ * - 기간 안에 작성된 리뷰의 criteria_feedback 라벨과 findings를 집계
+ * - 기준별 평가 라벨 분포, 리뷰별 평가 라벨 수, finding이 많은 파일/디렉터리,
+ *   여러 리뷰에서 반복된 지적(같은 fingerprint)
+ * - 어떤 규칙을 강조할지 정할 때 참고용
+ */
+
+export type ReviewStatsQuery = {
+  /** 리뷰 작성일 범위 (ISO 날짜/시각) */
+  since?: string;
+  until?: string;
+  /** 최근 N일 (since가 없을 때) */
+  days?: number;
+  /** 파일/디렉터리/반복 지적 상위 개수 */
+  top?: number;
+};
+
+type Counts<K extends string> = Record<K, number>;
+
+export type ReviewStatsRow = {
+  id: string;
+  created_at: string;
+  target: string;
+  severities: Counts<SeverityType>;
+  total: number;
+};
+
+export type HotspotStat = {
+  path: string;
+  findings: number;
+  /** finding이 나온 리뷰 수 */
+  reviews: number;
+};
+
+export type RepeatOffender = {
+  fingerprint: string;
+  file?: string;
+  category?: CategoryType;
+  /** 가장 최근 리뷰의 제목 */
+  title: string;
+  review_ids: string[];
+  first_seen: string;
+  last_seen: string;
+};
+
+export type ReviewStats = {
+  query: ReviewStatsQuery;
+  review_count: number;
+  finding_count: number;
+  /** 기간 안 리뷰의 실제 작성 시각 범위 */
+  first_review?: string;
+  last_review?: string;
+  severities: Counts<SeverityType>;
+  categories: Counts<CategoryType | "none">;
+  /** 기준별 criteria_feedback 라벨 분포 ("none": 피드백은 있으나 라벨 없음) */
+  criteria_labels: Record<CategoryType, Counts<SeverityType | "none">>;
+  /** 리뷰별 평가 라벨 수 (최신순) */
+  per_review: ReviewStatsRow[];
+  files: HotspotStat[];
+  directories: HotspotStat[];
+  repeat_offenders: RepeatOffender[];
+};
+
+const SEVERITY_ORDER: SeverityType[] = ["required", "improvement", "recommendation", "suggestion", "needs_confirmation"];
+const CATEGORY_ORDER: CategoryType[] = [
+  "readability", "predictability", "cohesion", "coupling", "micro_perspective", "intent_clarity",
+];
+
+const DEFAULT_TOP = 10;
+// 리뷰별 표에 보여줄 최대 리뷰 수
+const MAX_REVIEW_ROWS = 20;
+const BAR_WIDTH = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function zeroCounts<K extends string>(keys: readonly K[]): Counts<K> {
+  return Object.fromEntries(keys.map((k) => [k, 0])) as Counts<K>;
+}
+
+async function readReviewsInRange(store: RecordStore, range: { since?: number; until?: number }): Promise<ReviewRecord[]> {
+  const reviews: ReviewRecord[] = [];
+  for (const entry of await readReviewIndex(store)) {
+    if (!isInDateRange(entry.created_at, range)) continue;
+    try {
+      reviews.push(await getReview(store, entry.id));
+    } catch {
+      // 인덱스 조회 이후 삭제됨
+    }
+  }
+  return reviews;
+}
+
+function toDirectory(file: string): string {
+  const dir = path.posix.dirname(file.replace(/\\/g, "/"));
+  return dir === "." ? "(루트)" : dir;
+}
+
+/**
+ * 경로별 finding 수/리뷰 수 → 많은 순 상위 top개
+ */
+function rankHotspots(hits: { path: string; reviewId: string }[], top: number): HotspotStat[] {
+  const byPath = new Map<string, { findings: number; reviews: Set<string> }>();
+  for (const hit of hits) {
+    const stat = byPath.get(hit.path) ?? { findings: 0, reviews: new Set<string>() };
+    stat.findings++;
+    stat.reviews.add(hit.reviewId);
+    byPath.set(hit.path, stat);
+  }
+  return [...byPath.entries()]
+    .map(([p, stat]) => ({ path: p, findings: stat.findings, reviews: stat.reviews.size }))
+    .sort((a, b) => b.findings - a.findings || b.reviews - a.reviews || a.path.localeCompare(b.path))
+    .slice(0, top);
+}
+
+/**
+ * 같은 fingerprint가 두 개 이상의 리뷰에 나온 finding
+ * - reviews는 최신순 → 처음 만난 finding이 가장 최근 것
+ */
+function findRepeatOffenders(reviews: ReviewRecord[], top: number): RepeatOffender[] {
+  const byFingerprint = new Map<string, RepeatOffender>();
+  for (const review of reviews) {
+    for (const f of review.findings) {
+      if (!f.fingerprint) continue;
+      const current = byFingerprint.get(f.fingerprint);
+      if (!current) {
+        byFingerprint.set(f.fingerprint, {
+          fingerprint: f.fingerprint,
+          file: f.file,
+          category: f.category,
+          title: f.title_ko,
+          review_ids: [review.id],
+          first_seen: review.created_at,
+          last_seen: review.created_at,
+        });
+      } else if (!current.review_ids.includes(review.id)) {
+        current.review_ids.push(review.id);
+        current.first_seen = review.created_at;
+      }
+    }
+  }
+  return [...byFingerprint.values()]
+    .filter((o) => o.review_ids.length > 1)
+    .sort((a, b) => b.review_ids.length - a.review_ids.length || b.last_seen.localeCompare(a.last_seen))
+    .slice(0, top);
+}
+
+export async function computeReviewStats(store: RecordStore, query: ReviewStatsQuery = {}): Promise<ReviewStats> {
+  const since = query.since ?? (query.days ? new Date(Date.now() - query.days * DAY_MS).toISOString() : undefined);
+  const range = parseDateRange(since, query.until);
+  const top = Math.max(1, query.top ?? DEFAULT_TOP);
+  const reviews = await readReviewsInRange(store, range);
+
+  const severities = zeroCounts(SEVERITY_ORDER);
+  const categories = zeroCounts<CategoryType | "none">([...CATEGORY_ORDER, "none"]);
+  const criteria_labels = Object.fromEntries(
+    CATEGORY_ORDER.map((c) => [c, zeroCounts<SeverityType | "none">([...SEVERITY_ORDER, "none"])])
+  ) as ReviewStats["criteria_labels"];
+  const fileHits: { path: string; reviewId: string }[] = [];
+  const dirHits: { path: string; reviewId: string }[] = [];
+  const per_review: ReviewStatsRow[] = [];
+
+  for (const review of reviews) {
+    const row: ReviewStatsRow = {
+      id: review.id,
+      created_at: review.created_at,
+      target: formatDiffLabel(review.target.mode, review.target.base, review.target.head),
+      severities: zeroCounts(SEVERITY_ORDER),
+      total: review.findings.length,
+    };
+    for (const f of review.findings) {
+      severities[f.severity]++;
+      row.severities[f.severity]++;
+      categories[f.category ?? "none"]++;
+      if (f.file) {
+        fileHits.push({ path: f.file, reviewId: review.id });
+        dirHits.push({ path: toDirectory(f.file), reviewId: review.id });
+      }
+    }
+    per_review.push(row);
+
+    for (const category of CATEGORY_ORDER) {
+      const feedback = review.criteria_feedback?.[category];
+      if (feedback) criteria_labels[category][feedback.label ?? "none"]++;
+    }
+  }
+
+  return {
+    query: { ...query, top },
+    review_count: reviews.length,
+    finding_count: per_review.reduce((sum, row) => sum + row.total, 0),
+    first_review: reviews[reviews.length - 1]?.created_at,
+    last_review: reviews[0]?.created_at,
+    severities,
+    categories,
+    criteria_labels,
+    per_review,
+    files: rankHotspots(fileHits, top),
+    directories: rankHotspots(dirHits, top),
+    repeat_offenders: findRepeatOffenders(reviews, top),
+  };
+}
+
+function bar(value: number, max: number): string {
+  const filled = max > 0 ? Math.round((value / max) * BAR_WIDTH) : 0;
+  return "█".repeat(Math.max(value > 0 ? 1 : 0, filled)).padEnd(BAR_WIDTH, "░");
+}
+
+function percent(value: number, total: number): string {
+  return total > 0 ? `${Math.round((value / total) * 100)}%` : "0%";
+}
+
+/**
+ * 막대 차트 (코드 블록, 막대를 앞에 두어 한글 라벨 폭과 관계없이 정렬)
+ */
+function pushBarChart(lines: string[], rows: { label: string; value: number }[], total: number): void {
+  const max = Math.max(0, ...rows.map((r) => r.value));
+  const width = String(max).length;
+  lines.push("```");
+  for (const row of rows) {
+    lines.push(`${bar(row.value, max)} ${String(row.value).padStart(width)} (${percent(row.value, total).padStart(4)})  ${row.label}`);
+  }
+  lines.push("```");
+}
+
+function describeWindow(stats: ReviewStats): string {
+  const { since, until, days } = stats.query;
+  if (!since && days) return `최근 ${days}일${until ? ` (~ ${until})` : ""}`;
+  if (!since && !until) return "전체 기간";
+  return `${since ?? "처음"} ~ ${until ?? "현재"}`;
+}
+
+export function formatReviewStats(stats: ReviewStats): string {
+  const lines: string[] = [];
+  lines.push("# 📊 코드 품질 통계");
+  lines.push("");
+  lines.push(`- 기간: ${describeWindow(stats)}`);
+  if (!stats.review_count) {
+    lines.push("");
+    lines.push("ℹ️ 기간 안에 저장된 리뷰가 없습니다.");
+    return lines.join("\n");
+  }
+  lines.push(`- 리뷰: ${stats.review_count}개 (${stats.first_review} ~ ${stats.last_review})`);
+  lines.push(`- findings: ${stats.finding_count}개 (리뷰당 평균 ${(stats.finding_count / stats.review_count).toFixed(1)}개)`);
+  lines.push("");
+
+  lines.push("## 평가 라벨 분포");
+  lines.push("");
+  pushBarChart(
+    lines,
+    SEVERITY_ORDER.map((s) => ({ label: `${SEVERITY_ICONS[s]} ${SEVERITY_LABELS[s]} (${s})`, value: stats.severities[s] })),
+    stats.finding_count
+  );
+  lines.push("");
+
+  lines.push("## 카테고리별 findings");
+  lines.push("");
+  pushBarChart(
+    lines,
+    [
+      ...CATEGORY_ORDER.map((c) => ({ label: `${CATEGORY_LABELS[c]} (${c})`, value: stats.categories[c] })),
+      ...(stats.categories.none ? [{ label: "카테고리 없음", value: stats.categories.none }] : []),
+    ],
+    stats.finding_count
+  );
+  lines.push("");
+
+  lines.push("## 기준별 평가 라벨 (criteria_feedback)");
+  lines.push("");
+  lines.push(`| 기준 | ${SEVERITY_ORDER.map((s) => `${SEVERITY_ICONS[s]} ${SEVERITY_LABELS[s]}`).join(" | ")} | 라벨 없음 |`);
+  lines.push(`|------|${SEVERITY_ORDER.map(() => "---:").join("|")}|---:|`);
+  for (const c of CATEGORY_ORDER) {
+    const counts = stats.criteria_labels[c];
+    lines.push(`| ${CATEGORY_LABELS[c]} | ${SEVERITY_ORDER.map((s) => counts[s]).join(" | ")} | ${counts.none} |`);
+  }
+  lines.push("");
+
+  const rows = stats.per_review.slice(0, MAX_REVIEW_ROWS);
+  lines.push(`## 리뷰별 평가 라벨${stats.per_review.length > rows.length ? ` (최신 ${rows.length}개)` : ""}`);
+  lines.push("");
+  lines.push(`| 리뷰 | 대상 | ${SEVERITY_ORDER.map((s) => SEVERITY_ICONS[s]).join(" | ")} | 합계 |`);
+  lines.push(`|------|------|${SEVERITY_ORDER.map(() => "---:").join("|")}|---:|`);
+  for (const row of rows) {
+    lines.push(`| \`${row.id}\` | \`${row.target}\` | ${SEVERITY_ORDER.map((s) => row.severities[s]).join(" | ")} | ${row.total} |`);
+  }
+  lines.push("");
+
+  const pushHotspots = (title: string, hotspots: HotspotStat[]) => {
+    lines.push(`## ${title}`);
+    lines.push("");
+    if (!hotspots.length) {
+      lines.push("- (파일 위치가 있는 finding 없음)");
+      lines.push("");
+      return;
+    }
+    pushBarChart(
+      lines,
+      hotspots.map((h) => ({ label: `${h.path} (리뷰 ${h.reviews}개)`, value: h.findings })),
+      stats.finding_count
+    );
+    lines.push("");
+  };
+  pushHotspots(`finding이 많은 파일 (상위 ${stats.query.top})`, stats.files);
+  pushHotspots(`finding이 많은 디렉터리 (상위 ${stats.query.top})`, stats.directories);
+
+  lines.push("## 반복 지적 (같은 지문이 여러 리뷰에서)");
+  lines.push("");
+  if (!stats.repeat_offenders.length) {
+    lines.push("- (없음)");
+  } else {
+    for (const o of stats.repeat_offenders) {
+      const where = o.file ? `\`${o.file}\`` : "(위치 없음)";
+      const category = o.category ? ` | ${CATEGORY_LABELS[o.category]}` : "";
+      lines.push(`- **${o.title}** | ${where}${category} | 리뷰 ${o.review_ids.length}개 (${o.first_seen} ~ ${o.last_seen})`);
+      lines.push(`  - ${o.review_ids.map((id) => `\`${id}\``).join(", ")}`);
+    }
+    lines.push("");
+    lines.push("➡️ 여러 라운드에 걸쳐 같은 문제가 지적되고 있습니다. `review.compare`로 라운드별 변화를 확인하거나 `task.from_review`로 Task를 만드세요.");
+  }
+
+  return lines.join("\n");
+}
@@ -1,5 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import crypto from "node:crypto";
 import { fileURLToPath } from "node:url";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -38,29 +39,356 @@ export async function readCustomRules(customRulesPath?: string): Promise<string>
   return readFileOrEmpty(customRulesPath);
 }
 
+export type RuleSection = {
+  /** 섹션 키 (리소스 URI, make_prompt 선택에 사용) */
+  key: string;
+  /** 헤딩 텍스트 (## 제외) */
+  title: string;
+  /** 헤딩을 포함한 섹션 전체 마크다운 */
+  content: string;
+  /**
+   * 섹션 출처
+   * - default: 기본 규칙 그대로
+   * - override: 커스텀 규칙이 같은 헤딩의 기본 섹션을 대체
+   * - custom: 커스텀 규칙에서 새로 추가
+   */
+  source: "default" | "override" | "custom";
+};
+
+export type MergedRules = {
+  sections: RuleSection[];
+  /** 커스텀 규칙의 제거 마커로 빠진 기본 섹션 */
+  removed: RuleSection[];
+};
+
+// 커스텀 섹션 본문에 이 마커가 있으면 같은 헤딩(또는 key 마커로 지정한)의 기본 섹션을 제거
+const REMOVE_MARKER_RE = /<!--\s*(remove|삭제)\s*-->/i;
+
+// 헤딩 없이 작성된 커스텀 규칙(레거시 형식)을 담는 섹션 제목
+const CUSTOM_PREAMBLE_TITLE = "프로젝트 커스텀 규칙 (추가)";
+
+// 헤딩 → 섹션 키 (기본 규칙의 알려진 섹션)
+const KNOWN_SECTION_KEYS: Array<{ pattern: RegExp; key: string }> = [
+  { pattern: /기술 스택/, key: "tech_stack" },
+  { pattern: /디렉토리 구조/, key: "directory_structure" },
+  { pattern: /가독성|readability/i, key: "readability" },
+  { pattern: /예측 가능성|predictability/i, key: "predictability" },
+  { pattern: /응집도|cohesion/i, key: "cohesion" },
+  { pattern: /결합도|coupling/i, key: "coupling" },
+  { pattern: /미시적 관점|micro/i, key: "micro_perspective" },
+  { pattern: /의도 간결성|intent/i, key: "intent_clarity" },
+  { pattern: /리뷰 출력 형식/, key: "output_format" },
+  { pattern: /^부록/, key: "appendix" },
+  { pattern: /변경 이력/, key: "changelog" },
+];
+
+// 커스텀 섹션 본문에 이 마커가 있으면 헤딩 대신 키로 대체/제거할 기본 섹션 지정 (예: <!-- key: coupling -->)
+const SECTION_KEY_MARKER_RE = /<!--\s*key\s*:\s*([\w-]+)\s*-->/i;
+
+// 섹션 선택 여부와 관계없이 항상 포함되는 섹션
+const ALWAYS_INCLUDED_KEYS = ["intro"];
+
+/**
+ * 헤딩 텍스트에서 섹션 키 도출
+ * - 알려진 섹션은 고정 키, 그 외는 헤딩 텍스트를 슬러그로 변환
+ */
+export function toSectionKey(title: string): string {
+  const known = KNOWN_SECTION_KEYS.find(({ pattern }) => pattern.test(title));
+  if (known) return known.key;
+  return toSlugKey(title);
+}
+
+/** 헤딩 텍스트 → 슬러그 키 (번호 접두어 제거) */
+function toSlugKey(title: string): string {
+  return title
+    .replace(/^\d+\.\s*/, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "") || "section";
+}
+
+/** 헤딩 비교용 정규화 (번호 접두어 제거, 소문자, 공백 정리) */
+function normalizeHeading(title: string): string {
+  return title
+    .normalize("NFC")
+    .replace(/^\d+\.\s*/, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 기본 섹션 헤딩으로 인정하는 형태
+ * - "4. 결합도 (Coupling)" → "결합도 (coupling)", "결합도", "coupling"
+ * - "부록: 유틸리티 컴포넌트 레퍼런스" → 전체, "부록"
+ */
+function headingAliases(title: string): string[] {
+  const full = normalizeHeading(title);
+  const aliases = [full];
+  const paren = full.match(/^(.+?)\s*\((.+)\)$/);
+  if (paren) aliases.push(paren[1], paren[2].trim());
+  const colon = full.match(/^(.+?)\s*:/);
+  if (colon) aliases.push(colon[1]);
+  return aliases;
+}
+
+/**
+ * 커스텀 섹션이 대체/제거할 기본 섹션 위치 (없으면 -1)
+ * - `<!-- key: ... -->` 마커가 있으면 키로만 찾음
+ * - 그 외에는 정규화한 헤딩이 기본 헤딩(또는 섹션 키)과 정확히 같을 때만
+ *   ("## Micro-frontend 규칙"처럼 키워드만 겹치는 헤딩은 새 섹션으로 추가)
+ */
+function findTargetSection(sections: RuleSection[], custom: RuleSection): number {
+  const explicitKey = custom.content.match(SECTION_KEY_MARKER_RE)?.[1];
+  if (explicitKey) {
+    return sections.findIndex((sec) => sec.key === explicitKey);
+  }
+  const heading = normalizeHeading(custom.title);
+  return sections.findIndex((sec) => sec.key === heading || headingAliases(sec.title).includes(heading));
+}
+
+/**
+ * 규칙 마크다운을 `## ` 헤딩 단위 섹션으로 분리
+ * - 첫 `## ` 이전의 내용(제목/서문)은 `intro` 섹션
+ * - 코드 블록(```) 안의 헤딩은 무시
+ */
+export function parseRuleSections(markdown: string, source: RuleSection["source"]): RuleSection[] {
+  const sections: RuleSection[] = [];
+  let current: { title: string; lines: string[] } = { title: "", lines: [] };
+  let inFence = false;
+
+  const flush = () => {
+    const content = current.lines.join("\n").replace(/\n+-{3,}\s*$/, "").trim();
+    if (!content) return;
+    const baseKey = current.title ? toSectionKey(current.title) : "intro";
+    let key = baseKey;
+    for (let n = 2; sections.some((sec) => sec.key === key); n++) {
+      key = `${baseKey}_${n}`;
+    }
+    sections.push({ key, title: current.title || "서문", content, source });
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = !inFence ? line.match(/^##\s+(.+?)\s*#*\s*$/) : null;
+    if (heading) {
+      flush();
+      current = { title: heading[1].trim(), lines: [line] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * 기본 섹션 + 커스텀 섹션 병합 (헤딩 단위)
+ * - 헤딩이 기본 섹션과 같거나 `<!-- key: ... -->`로 키를 지정한 커스텀 섹션은 기본 섹션을 대체 (위치 유지)
+ * - 커스텀 섹션 본문에 `<!-- remove -->` 마커가 있으면 같은 대상의 기본 섹션 제거
+ * - 그 외 헤딩은 맨 뒤에 추가 (키는 헤딩 슬러그, 기존 키와 겹치면 `_2`, `_3` …)
+ * - 첫 `## ` 이전의 커스텀 내용은 `custom` 섹션으로 추가 (헤딩 없는 기존 커스텀 규칙 호환)
+ */
+export function mergeRuleSections(defaults: RuleSection[], customs: RuleSection[]): MergedRules {
+  const sections = [...defaults];
+  const removed: RuleSection[] = [];
+  const appended: RuleSection[] = [];
+
+  const uniqueKey = (baseKey: string) => {
+    let key = baseKey;
+    for (let n = 2; [...defaults, ...appended].some((sec) => sec.key === key); n++) {
+      key = `${baseKey}_${n}`;
+    }
+    return key;
+  };
+
+  for (const custom of customs) {
+    if (custom.key === "intro") {
+      appended.push({
+        ...custom,
+        key: "custom",
+        title: CUSTOM_PREAMBLE_TITLE,
+        content: [`## ${CUSTOM_PREAMBLE_TITLE}`, "", custom.content].join("\n"),
+        source: "custom",
+      });
+      continue;
+    }
+
+    const index = findTargetSection(sections, custom);
+    if (REMOVE_MARKER_RE.test(custom.content)) {
+      if (index >= 0) removed.push(...sections.splice(index, 1));
+      continue;
+    }
+    if (index >= 0) {
+      sections[index] = { ...custom, key: sections[index].key, source: "override" };
+    } else {
+      appended.push({ ...custom, key: uniqueKey(toSlugKey(custom.title)), source: "custom" });
+    }
+  }
+
+  return { sections: [...sections, ...appended], removed };
+}
+
+/**
+ * 기본 + 커스텀 규칙을 병합한 섹션 목록 읽기
+ */
+export async function readMergedRules(customRulesPath?: string): Promise<MergedRules> {
+  const defaults = parseRuleSections(await readDefaultRules(), "default");
+  const customRules = await readCustomRules(customRulesPath);
+  if (!customRules.trim()) {
+    return { sections: defaults, removed: [] };
+  }
+  return mergeRuleSections(defaults, parseRuleSections(customRules, "custom"));
+}
+
+/**
+ * 병합된 규칙 섹션 목록 (리소스/섹션 선택용)
+ */
+export async function readRuleSections(customRulesPath?: string): Promise<RuleSection[]> {
+  return (await readMergedRules(customRulesPath)).sections;
+}
+
+/**
+ * 섹션 목록을 하나의 규칙 텍스트로 결합
+ */
+export function joinRuleSections(sections: RuleSection[]): string {
+  return sections.map((sec) => sec.content).join("\n\n---\n\n");
+}
+
 /**
  * 최종 규칙 생성 (기본 + 커스텀 병합)
  * - 기본 규칙: 항상 적용 (MCP 서버 내장)
- * - 커스텀 규칙: 프로젝트별 추가/오버라이드 (선택적)
+ * - 커스텀 규칙: 헤딩 단위로 대체/제거/추가 (선택적)
  */
 export async function readRules(customRulesPath?: string): Promise<string> {
-  const defaultRules = await readDefaultRules();
   const customRules = await readCustomRules(customRulesPath);
-
   if (!customRules.trim()) {
-    return defaultRules;
+    return readDefaultRules();
+  }
+  return joinRuleSections(await readRuleSections(customRulesPath));
+}
+
+/**
+ * 선택한 섹션만으로 규칙 텍스트 구성
+ * - intro와 커스텀 규칙에서 새로 추가된 섹션은 항상 포함
+ * - 존재하지 않는 키는 unknown으로 반환
+ */
+export async function readSelectedRules(
+  customRulesPath: string | undefined,
+  keys: string[]
+): Promise<{ rules: string; included: string[]; unknown: string[] }> {
+  const sections = await readRuleSections(customRulesPath);
+  const wanted = new Set([...ALWAYS_INCLUDED_KEYS, ...keys]);
+  const selected = sections.filter((sec) => wanted.has(sec.key) || sec.source === "custom");
+  const known = new Set(sections.map((sec) => sec.key));
+
+  return {
+    rules: joinRuleSections(selected),
+    included: selected.map((sec) => sec.key),
+    unknown: keys.filter((k) => !known.has(k)),
+  };
+}
+
+export type RulesFingerprint = {
+  /** 기본 규칙 "변경 이력" 표의 최신 버전 (표가 없으면 null) */
+  version: string | null;
+  /** 기본 + 커스텀 규칙 전체 내용 해시 */
+  hash: string;
+  /** 기본 규칙 내용 해시 */
+  default_hash: string;
+  /** 커스텀 규칙 내용 해시 (커스텀 규칙이 없으면 생략) */
+  custom_hash?: string;
+};
+
+/**
+ * 내용 해시 (sha256 앞 12자리, 줄바꿈/끝 공백 차이는 무시)
+ */
+function hashContent(...parts: string[]): string {
+  const hash = crypto.createHash("sha256");
+  for (const part of parts) {
+    hash.update(part.replace(/\r\n/g, "\n").trimEnd());
+    hash.update("\0");
   }
+  return hash.digest("hex").slice(0, 12);
+}
 
-  // 기본 규칙 + 커스텀 규칙 병합
-  return [
-    defaultRules.trim(),
-    "",
-    "---",
-    "",
-    "## 프로젝트 커스텀 규칙 (추가/오버라이드)",
-    "",
-    customRules.trim(),
-  ].join("\n");
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * 규칙 마크다운의 "변경 이력" 표에서 최신 버전 추출
+ * - `| 날짜 | 버전 | 변경 내용 |` 형식의 행 중 가장 높은 버전 (행 순서와 무관)
+ */
+export function parseRulesVersion(markdown: string): string | null {
+  const changelog = parseRuleSections(markdown, "default").find((sec) => sec.key === "changelog");
+  if (!changelog) return null;
+
+  let latest: string | null = null;
+  for (const line of changelog.content.split("\n")) {
+    const cells = line.split("|").map((cell) => cell.trim());
+    const version = cells.map((cell) => cell.replace(/^v/i, "")).find((cell) => /^\d+(\.\d+)+$/.test(cell));
+    if (version && (latest === null || compareVersions(version, latest) > 0)) {
+      latest = version;
+    }
+  }
+  return latest;
+}
+
+/**
+ * 현재 적용 중인 규칙의 버전/해시 (리뷰 저장 시 기록)
+ */
+export async function getRulesFingerprint(customRulesPath?: string): Promise<RulesFingerprint> {
+  const defaultRules = await readDefaultRules();
+  const customRules = await readCustomRules(customRulesPath);
+  const fingerprint: RulesFingerprint = {
+    version: parseRulesVersion(defaultRules),
+    hash: hashContent(defaultRules, customRules),
+    default_hash: hashContent(defaultRules),
+  };
+  if (customRules.trim()) {
+    fingerprint.custom_hash = hashContent(customRules);
+  }
+  return fingerprint;
+}
+
+/**
+ * 규칙 버전/해시 표시 문자열 (예: "v1.0.0 · 3f2a9c1d0b7e")
+ */
+export function formatRulesFingerprint(fingerprint: RulesFingerprint | undefined): string {
+  if (!fingerprint) return "(기록 없음)";
+  const version = fingerprint.version ? `v${fingerprint.version}` : "버전 미상";
+  return `${version} · ${fingerprint.hash}${fingerprint.custom_hash ? " (커스텀 포함)" : ""}`;
+}
+
+/**
+ * 리뷰에 기록된 규칙이 현재 규칙과 다른 이유 (같으면 null)
+ */
+export function describeRulesChange(recorded: RulesFingerprint | undefined, current: RulesFingerprint): string | null {
+  if (!recorded) return "규칙 정보가 기록되지 않은 리뷰";
+  if (recorded.hash === current.hash) return null;
+
+  const reasons: string[] = [];
+  if (recorded.version !== current.version) {
+    reasons.push(`기본 규칙 버전 ${recorded.version ?? "?"} → ${current.version ?? "?"}`);
+  } else if (recorded.default_hash !== current.default_hash) {
+    reasons.push("기본 규칙 내용 변경 (버전 동일)");
+  }
+  if (recorded.custom_hash !== current.custom_hash) {
+    if (!recorded.custom_hash) reasons.push("커스텀 규칙 추가");
+    else if (!current.custom_hash) reasons.push("커스텀 규칙 삭제");
+    else reasons.push("커스텀 규칙 내용 변경");
+  }
+  return reasons.join(", ") || "규칙 내용 변경";
 }
 
 /**
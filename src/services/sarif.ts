@@ -0,0 +1,271 @@
+import { pathToFileURL } from "node:url";
+
+import { parseUnifiedDiff, getDiffFilePath, type DiffHunk } from "./diffParser.js";
+import { formatDiffLabel } from "./gitDiff.js";
+import { normalizePatchDiff } from "./patch.js";
+import {
+  CATEGORY_LABELS,
+  SEVERITY_LABELS,
+  type CategoryType,
+  type Finding,
+  type ReviewRecord,
+  type SeverityType,
+} from "./storage.js";
+
+/**
+ * 리뷰 → SARIF 2.1.0 로그 (review.export_sarif)
+ *
+ * IDE/코드 스캐닝 뷰어에서 리뷰 결과를 코드 위에 표시하기 위한 변환입니다.
+ * - 카테고리(6가지 기준) → reportingDescriptor (카테고리가 없는 finding은 "uncategorized")
+ * - 평가 라벨 → level (needs_confirmation은 kind "review", level "none")
+ * - file/startLine/endLine → physicalLocation (경로는 %SRCROOT% 기준 상대 경로)
+ * - suggestion_patch_diff → fixes (헌크의 변경 구간마다 replacement, 파싱할 수 없으면 생략)
+ */
+
+export const SARIF_VERSION = "2.1.0";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+const TOOL_NAME = "mrt-fe-review-washer";
+const TOOL_VERSION = "0.1.0";
+const SRCROOT = "%SRCROOT%";
+
+const UNCATEGORIZED_RULE = "uncategorized";
+
+const CATEGORY_ORDER: CategoryType[] = [
+  "readability", "predictability", "cohesion", "coupling", "micro_perspective", "intent_clarity",
+];
+
+// 평가 라벨 → SARIF level
+const SEVERITY_LEVELS: Record<SeverityType, "error" | "warning" | "note" | "none"> = {
+  required: "error",
+  improvement: "warning",
+  recommendation: "note",
+  suggestion: "note",
+  needs_confirmation: "none",
+};
+
+type SarifMessage = { text: string; markdown?: string };
+
+type SarifRegion = {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+};
+
+type SarifArtifactLocation = { uri: string; uriBaseId?: string };
+
+type SarifReplacement = {
+  deletedRegion: SarifRegion;
+  insertedContent?: { text: string };
+};
+
+export type SarifFix = {
+  description: SarifMessage;
+  artifactChanges: { artifactLocation: SarifArtifactLocation; replacements: SarifReplacement[] }[];
+};
+
+export type SarifResult = {
+  ruleId: string;
+  ruleIndex: number;
+  kind?: "review";
+  level: "error" | "warning" | "note" | "none";
+  message: SarifMessage;
+  locations?: { physicalLocation: { artifactLocation: SarifArtifactLocation; region?: SarifRegion } }[];
+  partialFingerprints?: Record<string, string>;
+  fixes?: SarifFix[];
+  properties: Record<string, unknown>;
+};
+
+export type SarifReportingDescriptor = {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  properties: { tags: string[] };
+};
+
+export type SarifLog = {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: {
+    tool: { driver: { name: string; version: string; rules: SarifReportingDescriptor[] } };
+    automationDetails: { id: string };
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }[];
+};
+
+export type SarifExport = {
+  log: SarifLog;
+  /** fixes로 변환한 finding 수 */
+  fixCount: number;
+  /** suggestion_patch_diff가 있으나 fixes로 변환하지 못한 finding (번호는 1부터) */
+  skippedPatches: { index: number; title: string; reason: string }[];
+};
+
+/** SARIF artifact URI (상대 경로, 각 세그먼트 인코딩) */
+function toArtifactUri(file: string): string {
+  return file
+    .replace(/\\/g, "/")
+    .replace(/^\.\//, "")
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/");
+}
+
+function toRuleName(category: string): string {
+  return category
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function buildRules(findings: Finding[]): SarifReportingDescriptor[] {
+  const used = new Set(findings.map((f) => f.category ?? UNCATEGORIZED_RULE));
+  const ids = [...CATEGORY_ORDER.filter((c) => used.has(c)), ...(used.has(UNCATEGORIZED_RULE) ? [UNCATEGORIZED_RULE] : [])];
+  return ids.map((id) => ({
+    id,
+    name: toRuleName(id),
+    shortDescription: { text: id === UNCATEGORIZED_RULE ? "분류 없음" : CATEGORY_LABELS[id as CategoryType] },
+    properties: { tags: ["code-review", id] },
+  }));
+}
+
+/**
+ * 헌크 → replacement 목록
+ * - 연속된 del/add 묶음마다 하나 (del 라인 전체를 지우고 add 라인을 넣음)
+ * - 추가만 있는 묶음은 다음 라인 앞에 삽입 (길이 0 영역)
+ * - 줄 전체를 바꾸도록 영역은 (시작 라인, 1열) ~ (마지막 라인 다음 줄, 1열)
+ */
+function hunkToReplacements(hunk: DiffHunk): SarifReplacement[] {
+  const replacements: SarifReplacement[] = [];
+  // 현재 위치의 변경 전 라인 번호 (다음에 올 old 라인)
+  // 순수 추가 헌크(-N,0)의 oldStart는 "N번 라인 뒤"를 뜻하므로 다음 라인은 N + 1
+  let oldCursor = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+  let i = 0;
+  while (i < hunk.lines.length) {
+    const line = hunk.lines[i];
+    if (line.type === "context") {
+      oldCursor = (line.oldLine ?? oldCursor) + 1;
+      i++;
+      continue;
+    }
+    const start = oldCursor;
+    const inserted: string[] = [];
+    let deleted = 0;
+    while (i < hunk.lines.length && hunk.lines[i].type !== "context") {
+      const change = hunk.lines[i];
+      if (change.type === "del") {
+        deleted++;
+        oldCursor = (change.oldLine ?? oldCursor) + 1;
+      } else {
+        inserted.push(change.content);
+      }
+      i++;
+    }
+    replacements.push({
+      deletedRegion: { startLine: start, startColumn: 1, endLine: start + deleted, endColumn: 1 },
+      ...(inserted.length ? { insertedContent: { text: `${inserted.join("\n")}\n` } } : {}),
+    });
+  }
+  return replacements;
+}
+
+/**
+ * suggestion_patch_diff → SARIF fix (변경 내용이 없거나 파싱할 수 없으면 에러)
+ */
+function patchToFix(finding: Finding): SarifFix {
+  const files = parseUnifiedDiff(normalizePatchDiff(finding.suggestion_patch_diff ?? "", finding.file));
+  const artifactChanges = files
+    .map((file) => ({
+      artifactLocation: { uri: toArtifactUri(getDiffFilePath(file)), uriBaseId: SRCROOT },
+      replacements: file.hunks.flatMap(hunkToReplacements),
+    }))
+    .filter((change) => change.replacements.length);
+  if (!artifactChanges.length) {
+    throw new Error("헌크(@@)를 찾을 수 없음");
+  }
+  return { description: { text: `제안 패치: ${finding.title_ko}` }, artifactChanges };
+}
+
+function toResult(finding: Finding, index: number, rules: SarifReportingDescriptor[]): SarifResult {
+  const ruleId = finding.category ?? UNCATEGORIZED_RULE;
+  const result: SarifResult = {
+    ruleId,
+    ruleIndex: rules.findIndex((r) => r.id === ruleId),
+    ...(finding.severity === "needs_confirmation" ? { kind: "review" as const } : {}),
+    level: SEVERITY_LEVELS[finding.severity],
+    message: {
+      text: `${finding.title_ko}\n\n${finding.detail_ko}`,
+      markdown: `**[${SEVERITY_LABELS[finding.severity]}] ${finding.title_ko}**\n\n${finding.detail_ko}`,
+    },
+    properties: {
+      severity: finding.severity,
+      finding_index: index,
+      ...(finding.location_status ? { location_status: finding.location_status } : {}),
+    },
+  };
+  if (finding.file) {
+    const region = finding.startLine
+      ? { startLine: finding.startLine, ...(finding.endLine && finding.endLine >= finding.startLine ? { endLine: finding.endLine } : {}) }
+      : undefined;
+    result.locations = [{
+      physicalLocation: {
+        artifactLocation: { uri: toArtifactUri(finding.file), uriBaseId: SRCROOT },
+        ...(region ? { region } : {}),
+      },
+    }];
+  }
+  if (finding.fingerprint) {
+    result.partialFingerprints = { "reviewFinding/v1": finding.fingerprint };
+  }
+  return result;
+}
+
+/**
+ * 리뷰를 SARIF 로그로 변환
+ * - projectRoot를 주면 %SRCROOT%를 해당 경로로 지정 (뷰어가 상대 경로를 해석할 때 사용)
+ */
+export function toSarif(review: ReviewRecord, options: { projectRoot?: string } = {}): SarifExport {
+  const rules = buildRules(review.findings);
+  const skippedPatches: SarifExport["skippedPatches"] = [];
+  let fixCount = 0;
+
+  const results = review.findings.map((finding, index) => {
+    const result = toResult(finding, index, rules);
+    if (finding.suggestion_patch_diff?.trim()) {
+      try {
+        result.fixes = [patchToFix(finding)];
+        fixCount++;
+      } catch (err: any) {
+        skippedPatches.push({ index: index + 1, title: finding.title_ko, reason: err?.message ?? String(err) });
+      }
+    }
+    return result;
+  });
+
+  const rootUri = options.projectRoot ? pathToFileURL(options.projectRoot).href : undefined;
+  return {
+    log: {
+      $schema: SARIF_SCHEMA,
+      version: SARIF_VERSION,
+      runs: [{
+        tool: { driver: { name: TOOL_NAME, version: TOOL_VERSION, rules } },
+        automationDetails: { id: `review/${review.id}` },
+        ...(rootUri ? { originalUriBaseIds: { [SRCROOT]: { uri: rootUri.endsWith("/") ? rootUri : `${rootUri}/` } } } : {}),
+        results,
+        properties: {
+          review_id: review.id,
+          created_at: review.created_at,
+          target: formatDiffLabel(review.target.mode, review.target.base, review.target.head),
+          summary_ko: review.summary_ko,
+          ...(review.risk ? { risk: review.risk } : {}),
+          ...(review.rules ? { rules: review.rules } : {}),
+        },
+      }],
+    },
+    fixCount,
+    skippedPatches,
+  };
+}
@@ -0,0 +1,174 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+import { getRecordLabel, type EntryBuilders, type RecordKind, type RecordStore, type StoredRecord } from "./recordStore.js";
+
+/**
+ * SQLite 저장소 (STORAGE_BACKEND=sqlite)
+ *
+ * 로컬 DB 파일 하나에 리뷰/Task를 저장합니다 (별도 서버 없음).
+ * - Node.js 내장 node:sqlite 사용 (22.13 이상, 추가 의존성 없음)
+ * - 레코드 원본(JSON)과 인덱스 항목을 같은 행에 저장 → 목록/필터는 쿼리 한 번
+ * - 수정/삭제는 `BEGIN IMMEDIATE` 트랜잭션 (여러 클라이언트가 같은 DB 파일을 써도 직렬화, WAL 모드)
+ * - 리뷰 마크다운 등 파일 산출물은 그대로 {DATA_DIR}/reviews에 저장
+ */
+
+// DB 레이아웃 버전 (PRAGMA user_version)
+const DB_VERSION = 1;
+// 다른 연결이 쓰기 트랜잭션을 잡고 있을 때 대기 시간
+const BUSY_TIMEOUT_MS = 10_000;
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS records (
+  kind TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  -- 인덱스 항목 (레코드 검증에 실패하면 NULL → 목록에서 제외)
+  entry TEXT,
+  PRIMARY KEY (kind, id)
+) WITHOUT ROWID;
+`;
+
+async function openDatabase(file: string): Promise<DatabaseSync> {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = await import("node:sqlite");
+  } catch {
+    throw new Error(
+      `SQLite 저장소는 Node.js 22.13 이상(node:sqlite)이 필요합니다 (현재 ${process.version}). Node.js를 업그레이드하거나 STORAGE_BACKEND=json을 사용하세요.`
+    );
+  }
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const db = new sqlite.DatabaseSync(file);
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  db.exec("PRAGMA journal_mode = WAL");
+  const version = Number((db.prepare("PRAGMA user_version").get() as { user_version: number }).user_version);
+  if (version > DB_VERSION) {
+    db.close();
+    throw new Error(`이 서버보다 새 버전의 SQLite 저장소입니다 (v${version}): ${file}`);
+  }
+  db.exec(SCHEMA_SQL);
+  db.exec(`PRAGMA user_version = ${DB_VERSION}`);
+  return db;
+}
+
+/**
+ * 쓰기 트랜잭션 (fn이 던지면 롤백)
+ * - node:sqlite는 동기 API라 트랜잭션 도중 같은 프로세스의 다른 호출이 끼어들지 않음
+ */
+function transaction<T>(db: DatabaseSync, fn: () => T): T {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn();
+    db.exec("COMMIT");
+    return result;
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+export function createSqliteRecordStore(dataDir: string, file: string, buildEntry: EntryBuilders): RecordStore {
+  let opening: Promise<DatabaseSync> | null = null;
+
+  // 첫 사용 시 연결 (실패하면 다음 호출에서 다시 시도)
+  function getDb(): Promise<DatabaseSync> {
+    if (!opening) {
+      opening = openDatabase(file).catch((err) => {
+        opening = null;
+        throw err;
+      });
+    }
+    return opening;
+  }
+
+  function readRaw(db: DatabaseSync, kind: RecordKind, id: string): unknown {
+    const row = db.prepare("SELECT data FROM records WHERE kind = ? AND id = ?").get(kind, id) as { data: string } | undefined;
+    if (!row) throw new Error(`${getRecordLabel(kind)}를 찾을 수 없습니다: ${id}`);
+    return JSON.parse(row.data);
+  }
+
+  function writeRecord(db: DatabaseSync, kind: RecordKind, record: StoredRecord): void {
+    db.prepare("INSERT OR REPLACE INTO records (kind, id, data, entry) VALUES (?, ?, ?, ?)").run(
+      kind,
+      record.id,
+      JSON.stringify(record),
+      JSON.stringify(buildEntry[kind](record))
+    );
+  }
+
+  return {
+    backend: "sqlite",
+    dataDir,
+    location: file,
+
+    async read(kind, id) {
+      return readRaw(await getDb(), kind, id);
+    },
+
+    async has(kind, id) {
+      const db = await getDb();
+      return db.prepare("SELECT 1 FROM records WHERE kind = ? AND id = ?").get(kind, id) !== undefined;
+    },
+
+    async insert(kind, record) {
+      const db = await getDb();
+      transaction(db, () => {
+        if (db.prepare("SELECT 1 FROM records WHERE kind = ? AND id = ?").get(kind, record.id) !== undefined) {
+          throw new Error(`이미 있는 ${getRecordLabel(kind)} id입니다: ${record.id}`);
+        }
+        writeRecord(db, kind, record);
+      });
+    },
+
+    async modify<T extends StoredRecord>(kind: RecordKind, id: string, update: (raw: unknown) => T): Promise<T> {
+      const db = await getDb();
+      return transaction(db, () => {
+        const next = update(readRaw(db, kind, id));
+        writeRecord(db, kind, next);
+        return next;
+      });
+    },
+
+    async remove(kind, id) {
+      const db = await getDb();
+      return transaction(db, () => {
+        const raw = readRaw(db, kind, id);
+        db.prepare("DELETE FROM records WHERE kind = ? AND id = ?").run(kind, id);
+        return raw;
+      });
+    },
+
+    async ids(kind) {
+      const db = await getDb();
+      return (db.prepare("SELECT id FROM records WHERE kind = ? ORDER BY id DESC").all(kind) as { id: string }[]).map((r) => r.id);
+    },
+
+    async entries(kind) {
+      const db = await getDb();
+      const rows = db.prepare("SELECT entry FROM records WHERE kind = ? AND entry IS NOT NULL ORDER BY id DESC").all(kind) as { entry: string }[];
+      return rows.map((r) => JSON.parse(r.entry));
+    },
+
+    async reindex(kind) {
+      const db = await getDb();
+      return transaction(db, () => {
+        const rows = db.prepare("SELECT id, data FROM records WHERE kind = ?").all(kind) as { id: string; data: string }[];
+        const update = db.prepare("UPDATE records SET entry = ? WHERE kind = ? AND id = ?");
+        const errors: string[] = [];
+        let count = 0;
+        for (const row of rows) {
+          try {
+            update.run(JSON.stringify(buildEntry[kind](JSON.parse(row.data))), kind, row.id);
+            count++;
+          } catch (err: any) {
+            update.run(null, kind, row.id);
+            errors.push(`${kind}/${row.id}: ${err?.message ?? String(err)}`);
+          }
+        }
+        return { count, errors };
+      });
+    },
+  };
+}
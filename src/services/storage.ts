@@ -2,6 +2,17 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import crypto from "node:crypto";
 
+import { LOCATION_STATUS_LABELS } from "./findingValidator.js";
+import { stripCodeFence } from "./patch.js";
+import { formatDiffLabel, type DiffMode } from "./gitDiff.js";
+import { formatRulesFingerprint, type RulesFingerprint } from "./rules.js";
+import type { CheckResult, CheckResultValue } from "./checks.js";
+import { matchGlob } from "./glob.js";
+import { paginate } from "./storageIndex.js";
+import { writeFileAtomic } from "./fileStore.js";
+import type { RecordStore } from "./recordStore.js";
+import { parseStoredReview, recordIdOf, REVIEW_SCHEMA_VERSION } from "./recordSchemas.js";
+
 // 6가지 코드 리뷰 기준 카테고리
 export type CategoryType = 
   | "readability"      // 가독성
@@ -19,6 +30,14 @@ export type SeverityType =
   | "required"            // 필수 (39~0점)
   | "needs_confirmation"; // 확인요청 (확신이 없는 경우)
 
+// finding 위치 검증 상태 (review.save 시 diff와 대조한 결과)
+export type FindingLocationStatus =
+  | "valid"             // diff의 변경 범위 내
+  | "no_location"       // file 미지정
+  | "file_not_in_diff"  // diff에 없는 파일
+  | "outside_hunks"     // 변경된 헌크 범위 밖 라인
+  | "unchecked";        // diff 수집 실패 등으로 검증하지 못함
+
 export type Finding = {
   severity: SeverityType;
   category?: CategoryType;
@@ -28,6 +47,9 @@ export type Finding = {
   title_ko: string;
   detail_ko: string;
   suggestion_patch_diff?: string;
+  location_status?: FindingLocationStatus;
+  fingerprint?: string;  // 리뷰 간 매칭용 지문 (파일 + 카테고리 + 제목 + 주변 코드)
+  code_hash?: string;    // 주변 코드만의 해시
 };
 
 // 기준별 피드백
@@ -45,22 +67,87 @@ export type CriteriaFeedback = {
   intent_clarity?: CriteriaFeedbackItem;
 };
 
+/**
+ * 리뷰 당시 diff의 커밋 (review.save에서 기록, PR 코멘트 내보내기 기준)
+ * - working_tree/staged 리뷰이거나 커밋을 찾지 못하면 기록하지 않음
+ */
+export type ReviewCommitRefs = {
+  /** merge-base (three_dot) 또는 base 커밋 */
+  base_sha: string;
+  /** 대상 브랜치(base) 커밋 */
+  start_sha: string;
+  head_sha: string;
+};
+
 export type ReviewRecord = {
   id: string;
   created_at: string;
-  target: { base: string; head: string };
+  schema_version?: number;  // 레코드 스키마 버전 (없으면 1, 읽을 때 현재 버전으로 마이그레이션)
+  revision?: number;  // 리뷰는 한 번 저장하면 수정하지 않음 (저장 시 1, storage.doctor가 다시 쓸 때만 증가)
+  target: { base: string; head: string; mode?: DiffMode; refs?: ReviewCommitRefs };
   summary_ko: string;
   risk?: "low" | "medium" | "high";
   criteria_feedback?: CriteriaFeedback;  // 5가지 기준별 피드백
   findings: Finding[];
+  check_results?: CheckResult[];  // 필수 체크리스트 결과
+  rules?: RulesFingerprint;  // 리뷰 당시 적용된 규칙 버전/해시
 };
 
-function nowIso() {
-  return new Date().toISOString();
+// 인덱스 항목 (목록/필터용 요약)
+export type ReviewIndexEntry = {
+  id: string;
+  created_at: string;
+  base: string;
+  /** 리뷰 대상 브랜치/ref (target.head) */
+  branch: string;
+  mode?: DiffMode;
+  risk?: ReviewRecord["risk"];
+  finding_count: number;
+  /** findings에 등장한 평가 라벨/카테고리/파일 (중복 제거) */
+  severities: SeverityType[];
+  categories: string[];
+  files: string[];
+  rules_hash?: string;
+};
+
+export type ReviewQuery = {
+  /** 이 평가 라벨의 finding이 있는 리뷰 */
+  severity?: SeverityType;
+  /** 이 카테고리의 finding이 있는 리뷰 */
+  category?: string;
+  /** 이 파일(경로 또는 glob)에 finding이 있는 리뷰 */
+  file?: string;
+  cursor?: string;
+  limit?: number;
+};
+
+function toReviewIndexEntry(review: ReviewRecord): ReviewIndexEntry {
+  const findings = review.findings ?? [];
+  const unique = <T>(values: (T | undefined)[]) => [...new Set(values.filter((v): v is T => v !== undefined))];
+  return {
+    id: review.id,
+    created_at: review.created_at,
+    base: review.target.base,
+    branch: review.target.head,
+    mode: review.target.mode,
+    risk: review.risk,
+    finding_count: findings.length,
+    severities: unique(findings.map((f) => f.severity)),
+    categories: unique(findings.map((f) => f.category)),
+    files: unique(findings.map((f) => f.file)),
+    rules_hash: review.rules?.hash,
+  };
 }
 
-export async function ensureDirs(dataDir: string) {
-  await fs.mkdir(path.join(dataDir, "reviews"), { recursive: true });
+/**
+ * 저장된 원본 레코드 → 인덱스 항목 (마이그레이션/검증 포함, 저장소가 인덱스를 만들 때 사용)
+ */
+export function reviewIndexEntryFromRecord(raw: unknown): ReviewIndexEntry {
+  return toReviewIndexEntry(parseStoredReview(raw, recordIdOf(raw)));
+}
+
+function nowIso() {
+  return new Date().toISOString();
 }
 
 export function newReviewId() {
@@ -68,48 +155,81 @@ export function newReviewId() {
   return `rev_${nowIso().replace(/[:.]/g, "-")}_${crypto.randomBytes(3).toString("hex")}`;
 }
 
-export async function saveReview(dataDir: string, record: Omit<ReviewRecord, "id" | "created_at">): Promise<ReviewRecord> {
-  await ensureDirs(dataDir);
+export async function saveReview(store: RecordStore, record: Omit<ReviewRecord, "id" | "created_at" | "schema_version" | "revision">): Promise<ReviewRecord> {
   const id = newReviewId();
   const created_at = nowIso();
-  const full: ReviewRecord = { id, created_at, ...record };
+  const full: ReviewRecord = { id, created_at, schema_version: REVIEW_SCHEMA_VERSION, revision: 1, ...record };
 
-  const file = path.join(dataDir, "reviews", `${id}.json`);
-  await fs.writeFile(file, JSON.stringify(full, null, 2), "utf-8");
+  await store.insert("reviews", full);
   return full;
 }
 
-export async function listReviews(dataDir: string, limit = 20): Promise<ReviewRecord[]> {
-  await ensureDirs(dataDir);
-  const dir = path.join(dataDir, "reviews");
-  const files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
+/**
+ * 리뷰 인덱스 조회 (최신순)
+ */
+export async function readReviewIndex(store: RecordStore): Promise<ReviewIndexEntry[]> {
+  return store.entries("reviews");
+}
 
-  // 최신이 위로
-  files.sort((a, b) => b.localeCompare(a));
+/**
+ * 리뷰 인덱스 재생성
+ */
+export async function rebuildReviewIndex(store: RecordStore): Promise<{ count: number; errors: string[] }> {
+  return store.reindex("reviews");
+}
+
+function matchesReviewQuery(entry: ReviewIndexEntry, query: ReviewQuery): boolean {
+  if (query.severity && !entry.severities.includes(query.severity)) return false;
+  if (query.category && !entry.categories.includes(query.category)) return false;
+  if (query.file && !entry.files.some((f) => f === query.file || matchGlob(f, query.file!))) return false;
+  return true;
+}
 
-  const sliced = files.slice(0, Math.max(1, limit));
+async function readReviews(store: RecordStore, ids: string[]): Promise<ReviewRecord[]> {
   const out: ReviewRecord[] = [];
-  for (const f of sliced) {
-    const txt = await fs.readFile(path.join(dir, f), "utf-8");
-    out.push(JSON.parse(txt));
+  for (const id of ids) {
+    try {
+      out.push(await getReview(store, id));
+    } catch {
+      // 인덱스 조회 이후 삭제됨
+    }
   }
   return out;
 }
 
-export async function getReview(dataDir: string, id: string): Promise<ReviewRecord> {
-  await ensureDirs(dataDir);
-  const file = path.join(dataDir, "reviews", `${id}.json`);
-  const txt = await fs.readFile(file, "utf-8");
-  return JSON.parse(txt);
+export async function listReviews(store: RecordStore, limit = 20): Promise<ReviewRecord[]> {
+  // 최신이 위로
+  const entries = (await readReviewIndex(store)).slice(0, Math.max(1, limit));
+  return readReviews(store, entries.map((e) => e.id));
+}
+
+/**
+ * 리뷰 검색 (필터 + cursor 페이지네이션, 페이지에 해당하는 레코드만 읽음)
+ */
+export async function queryReviews(
+  store: RecordStore,
+  query: ReviewQuery
+): Promise<{ reviews: ReviewRecord[]; total: number; next_cursor?: string }> {
+  const entries = (await readReviewIndex(store)).filter((e) => matchesReviewQuery(e, query));
+  const page = paginate(entries, query.limit ?? 20, query.cursor);
+  return {
+    reviews: await readReviews(store, page.entries.map((e) => e.id)),
+    total: page.total,
+    next_cursor: page.next_cursor,
+  };
 }
 
-export async function getLatestReview(dataDir: string): Promise<ReviewRecord | null> {
-  const list = await listReviews(dataDir, 1);
+export async function getReview(store: RecordStore, id: string): Promise<ReviewRecord> {
+  return parseStoredReview(await store.read("reviews", id), id);
+}
+
+export async function getLatestReview(store: RecordStore): Promise<ReviewRecord | null> {
+  const list = await listReviews(store, 1);
   return list[0] ?? null;
 }
 
 // 카테고리 한글 매핑
-const CATEGORY_LABELS: Record<CategoryType, string> = {
+export const CATEGORY_LABELS: Record<CategoryType, string> = {
   readability: "가독성",
   predictability: "예측 가능성",
   cohesion: "응집도",
@@ -119,7 +239,7 @@ const CATEGORY_LABELS: Record<CategoryType, string> = {
 };
 
 // 평가 라벨 한글 매핑
-const SEVERITY_LABELS: Record<SeverityType, string> = {
+export const SEVERITY_LABELS: Record<SeverityType, string> = {
   suggestion: "단순제안",
   recommendation: "적극제안",
   improvement: "개선",
@@ -128,7 +248,7 @@ const SEVERITY_LABELS: Record<SeverityType, string> = {
 };
 
 // 평가 라벨 아이콘 매핑
-const SEVERITY_ICONS: Record<SeverityType, string> = {
+export const SEVERITY_ICONS: Record<SeverityType, string> = {
   suggestion: "💡",
   recommendation: "📝",
   improvement: "⚠️",
@@ -136,20 +256,39 @@ const SEVERITY_ICONS: Record<SeverityType, string> = {
   needs_confirmation: "❓"
 };
 
-export async function saveMarkdownFile(dataDir: string, reviewId: string, content: string): Promise<string> {
-  await ensureDirs(dataDir);
-  const filePath = path.join(dataDir, "reviews", `${reviewId}.md`);
-  await fs.writeFile(filePath, content, "utf-8");
+// 체크 결과 표시
+const CHECK_RESULT_LABELS: Record<CheckResultValue, string> = {
+  pass: "✅ 통과",
+  fail: "❌ 실패",
+  na: "➖ 해당 없음"
+};
+
+/**
+ * 리뷰 산출물 파일 저장 ({DATA_DIR}/reviews/{fileName}, 저장소 종류와 관계없이 파일로 저장)
+ */
+export async function saveReviewFile(store: RecordStore, fileName: string, content: string): Promise<string> {
+  const dir = path.join(store.dataDir, "reviews");
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, fileName);
+  await writeFileAtomic(filePath, content);
   return filePath;
 }
 
+/**
+ * 리뷰 마크다운 저장 ({DATA_DIR}/reviews/{id}.md)
+ */
+export async function saveMarkdownFile(store: RecordStore, reviewId: string, content: string): Promise<string> {
+  return saveReviewFile(store, `${reviewId}.md`, content);
+}
+
 export function toMarkdown(review: ReviewRecord): string {
   const lines: string[] = [];
   lines.push(`# 코드리뷰 결과 (${review.id})`);
   lines.push("");
   lines.push(`- 생성 시각: ${review.created_at}`);
-  lines.push(`- 대상: \`${review.target.base}...${review.target.head}\``);
+  lines.push(`- 대상: \`${formatDiffLabel(review.target.mode, review.target.base, review.target.head)}\``);
   if (review.risk) lines.push(`- 리스크: **${review.risk}**`);
+  lines.push(`- 규칙: \`${formatRulesFingerprint(review.rules)}\``);
   lines.push("");
   lines.push("## 요약");
   lines.push("");
@@ -186,6 +325,18 @@ export function toMarkdown(review: ReviewRecord): string {
     }
   }
 
+  if (review.check_results?.length) {
+    lines.push("## ✅ 체크리스트");
+    lines.push("");
+    lines.push("| 체크 | 중요도 | 결과 | 메모 |");
+    lines.push("|------|--------|------|------|");
+    for (const c of review.check_results) {
+      const title = c.title_ko ? `${c.title_ko} (\`${c.id}\`)` : `\`${c.id}\``;
+      lines.push(`| ${title} | ${c.severity ?? "-"} | ${CHECK_RESULT_LABELS[c.result]} | ${c.note_ko ?? ""} |`);
+    }
+    lines.push("");
+  }
+
   if (!review.findings?.length) {
     lines.push("## 발견사항");
     lines.push("");
@@ -239,6 +390,9 @@ export function toMarkdown(review: ReviewRecord): string {
       const categoryLabel = CATEGORY_LABELS[f.category] || f.category;
       lines.push(`- **분류**: ${categoryLabel}`);
     }
+    if (f.location_status === "file_not_in_diff" || f.location_status === "outside_hunks") {
+      lines.push(`- **위치 검증**: ⚠️ ${LOCATION_STATUS_LABELS[f.location_status]}`);
+    }
     lines.push("");
     lines.push("**설명:**");
     lines.push("");
@@ -248,11 +402,7 @@ export function toMarkdown(review: ReviewRecord): string {
     if (f.suggestion_patch_diff) {
       lines.push("**✅ 제안 패치:**");
       lines.push("");
-      // diff 내용에서 코드 블록 마커 제거 및 정리
-      const cleanDiff = f.suggestion_patch_diff
-        .replace(/^```diff\s*/i, "")  // 시작 부분의 ```diff 제거
-        .replace(/```\s*$/g, "")      // 끝 부분의 ``` 제거
-        .trim();
+      const cleanDiff = stripCodeFence(f.suggestion_patch_diff);
       lines.push("```diff");
       lines.push(cleanDiff);
       lines.push("```");
@@ -0,0 +1,404 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { cleanupStaleFiles, withFileLock, writeFileAtomic, writeJsonAtomic } from "./fileStore.js";
+import type { RecordKind, RecordStore } from "./recordStore.js";
+import {
+  checkReviewRecord,
+  checkTaskRecord,
+  isObject,
+  KNOWN_CATEGORIES,
+  KNOWN_SEVERITIES,
+  KNOWN_TASK_STATUSES,
+  REVIEW_SCHEMA_VERSION,
+  TASK_SCHEMA_VERSION,
+  type RecordCheck,
+} from "./recordSchemas.js";
+import { rebuildReviewIndex, type ReviewRecord } from "./storage.js";
+import { rebuildTaskIndex, type Task } from "./taskStorage.js";
+
+/**
+ * 저장소 점검 (storage.doctor)
+ *
+ * - {DATA_DIR}/reviews, tasks의 모든 레코드 JSON을 읽어 마이그레이션 대상/검증 오류/깨진 파일을 보고
+ * - fix 모드:
+ *   - 마이그레이션 대상 → 현재 스키마 버전으로 다시 저장
+ *   - 알 수 없는 값 → 안전한 기본값으로 복구 (평가 라벨은 needs_confirmation, 상태는 pending 등)
+ *   - 복구할 수 없거나 JSON이 깨진 파일 → {DATA_DIR}/quarantine/{reviews,tasks}/로 이동
+ *   - 수정 전 원본은 `{파일}.bak`으로 보관, 마지막에 인덱스 재생성
+ * - 비정상 종료로 남은 임시 파일/잠금은 항상 정리
+ */
+
+export type DoctorRecordStatus =
+  /** 마이그레이션/id 보정만 필요 (읽기는 가능) */
+  | "migration"
+  /** 검증 실패 (도구에서 읽을 수 없음) */
+  | "invalid"
+  /** JSON 파싱 실패 */
+  | "unreadable";
+
+export type DoctorRecordResult = {
+  kind: RecordKind;
+  /** DATA_DIR 기준 상대 경로 */
+  file: string;
+  status: DoctorRecordStatus;
+  migrations: string[];
+  issues: string[];
+  /** 적용했거나(fix) 적용할 복구 내용 */
+  repairs: string[];
+  /** fix 결과 */
+  action?: "migrated" | "repaired" | "quarantined";
+};
+
+export type DoctorReport = {
+  fix: boolean;
+  scanned: Record<RecordKind, number>;
+  healthy: number;
+  records: DoctorRecordResult[];
+  /** 정리한 임시 파일/잠금 (DATA_DIR 기준 상대 경로) */
+  cleaned: string[];
+  /** fix 후 인덱스 재생성 결과 */
+  reindexed?: Record<RecordKind, number>;
+};
+
+const RECORD_KINDS: RecordKind[] = ["reviews", "tasks"];
+
+const CURRENT_VERSIONS: Record<RecordKind, number> = {
+  reviews: REVIEW_SCHEMA_VERSION,
+  tasks: TASK_SCHEMA_VERSION,
+};
+
+type Repair = { record: Record<string, unknown>; repairs: string[] };
+
+function isPositiveInt(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isOneOf(values: readonly string[], value: unknown): boolean {
+  return typeof value === "string" && values.includes(value);
+}
+
+/**
+ * 검증 실패한 리뷰 레코드를 안전한 값으로 복구 (마이그레이션 후 레코드 기준)
+ * - target이 없으면 비교 기준을 알 수 없으므로 복구하지 않음
+ */
+function repairReview(record: Record<string, unknown>): Repair {
+  const repairs: string[] = [];
+  const next: Record<string, unknown> = { ...record };
+
+  if (typeof next.summary_ko !== "string") {
+    next.summary_ko = "";
+    repairs.push("summary_ko 없음 → 빈 문자열");
+  }
+  if (next.risk !== undefined && !isOneOf(["low", "medium", "high"], next.risk)) {
+    repairs.push(`risk 제거 (알 수 없는 값: ${String(next.risk)})`);
+    delete next.risk;
+  }
+
+  next.findings = (Array.isArray(next.findings) ? next.findings : []).map((raw: unknown, i: number) => {
+    const f: Record<string, unknown> = isObject(raw) ? { ...raw } : {};
+    const where = `findings.${i}`;
+    if (!isOneOf(KNOWN_SEVERITIES, f.severity)) {
+      repairs.push(`${where}.severity: ${String(f.severity)} → needs_confirmation`);
+      f.severity = "needs_confirmation";
+    }
+    if (f.category !== undefined && !isOneOf(KNOWN_CATEGORIES, f.category)) {
+      repairs.push(`${where}.category 제거 (알 수 없는 값: ${String(f.category)})`);
+      delete f.category;
+    }
+    for (const key of ["title_ko", "detail_ko"]) {
+      if (typeof f[key] !== "string") {
+        repairs.push(`${where}.${key} 없음 → 빈 문자열`);
+        f[key] = "";
+      }
+    }
+    for (const key of ["startLine", "endLine"]) {
+      if (f[key] !== undefined && !isPositiveInt(f[key])) {
+        repairs.push(`${where}.${key} 제거 (잘못된 값: ${String(f[key])})`);
+        delete f[key];
+      }
+    }
+    return f;
+  });
+
+  if (next.criteria_feedback !== undefined) {
+    if (!isObject(next.criteria_feedback)) {
+      repairs.push("criteria_feedback 제거 (객체가 아님)");
+      delete next.criteria_feedback;
+    } else {
+      const feedback: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(next.criteria_feedback)) {
+        if (!KNOWN_CATEGORIES.includes(key)) {
+          repairs.push(`criteria_feedback.${key} 제거 (알 수 없는 카테고리)`);
+          continue;
+        }
+        const fixed: Record<string, unknown> = isObject(item) ? { ...item } : {};
+        if (fixed.label !== undefined && !isOneOf(KNOWN_SEVERITIES, fixed.label)) {
+          repairs.push(`criteria_feedback.${key}.label 제거 (알 수 없는 값: ${String(fixed.label)})`);
+          delete fixed.label;
+        }
+        if (!Array.isArray(fixed.improve) || fixed.improve.some((s: unknown) => typeof s !== "string")) {
+          repairs.push(`criteria_feedback.${key}.improve → 문자열 항목만 유지`);
+          fixed.improve = Array.isArray(fixed.improve) ? fixed.improve.filter((s: unknown) => typeof s === "string") : [];
+        }
+        feedback[key] = fixed;
+      }
+      next.criteria_feedback = feedback;
+    }
+  }
+
+  return { record: next, repairs };
+}
+
+/**
+ * 검증 실패한 Task 레코드를 안전한 값으로 복구 (마이그레이션 후 레코드 기준)
+ */
+function repairTask(record: Record<string, unknown>): Repair {
+  const repairs: string[] = [];
+  const next: Record<string, unknown> = { ...record };
+
+  if (!isOneOf(KNOWN_SEVERITIES, next.severity)) {
+    repairs.push(`severity: ${String(next.severity)} → needs_confirmation`);
+    next.severity = "needs_confirmation";
+  }
+  if (!isOneOf(KNOWN_TASK_STATUSES, next.status)) {
+    repairs.push(`status: ${String(next.status)} → pending`);
+    next.status = "pending";
+  }
+  if (typeof next.title !== "string") {
+    repairs.push("title 없음 → \"(제목 없음)\"");
+    next.title = "(제목 없음)";
+  }
+  if (typeof next.description !== "string") {
+    repairs.push("description 없음 → 빈 문자열");
+    next.description = "";
+  }
+  if (typeof next.created_at !== "string" || !next.created_at) {
+    const fallback = typeof next.updated_at === "string" && next.updated_at ? next.updated_at : new Date().toISOString();
+    repairs.push(`created_at 없음 → ${fallback}`);
+    next.created_at = fallback;
+  }
+  if (typeof next.updated_at !== "string" || !next.updated_at) {
+    repairs.push(`updated_at 없음 → ${next.created_at}`);
+    next.updated_at = next.created_at;
+  }
+  for (const key of ["startLine", "endLine"]) {
+    if (next[key] !== undefined && !isPositiveInt(next[key])) {
+      repairs.push(`${key} 제거 (잘못된 값: ${String(next[key])})`);
+      delete next[key];
+    }
+  }
+  for (const key of ["depends_on", "blocks"]) {
+    const ids = next[key];
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((v: unknown) => typeof v !== "string"))) {
+      repairs.push(`${key} → 문자열 id만 유지`);
+      next[key] = Array.isArray(ids) ? ids.filter((v: unknown) => typeof v === "string") : [];
+    }
+  }
+  if (next.history !== undefined) {
+    const history = Array.isArray(next.history) ? next.history : [];
+    const valid = history.filter((h: unknown) =>
+      isObject(h) &&
+      (h.from === null || isOneOf(KNOWN_TASK_STATUSES, h.from)) &&
+      isOneOf(KNOWN_TASK_STATUSES, h.to) &&
+      typeof h.at === "string" &&
+      typeof h.tool === "string"
+    );
+    if (valid.length !== history.length || !Array.isArray(next.history)) {
+      repairs.push(`history: 형식이 잘못된 항목 ${history.length - valid.length}개 제거`);
+      next.history = valid;
+    }
+  }
+
+  return { record: next, repairs };
+}
+
+function checkRecord(kind: RecordKind, raw: unknown): RecordCheck<ReviewRecord | Task> {
+  return kind === "reviews" ? checkReviewRecord(raw) : checkTaskRecord(raw);
+}
+
+async function moveToQuarantine(dataDir: string, kind: RecordKind, name: string): Promise<void> {
+  const dir = path.join(dataDir, "quarantine", kind);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.rename(path.join(dataDir, kind, name), path.join(dir, name));
+}
+
+/**
+ * 레코드 파일 하나 점검 (정상이면 null)
+ */
+async function inspectRecord(dataDir: string, kind: RecordKind, name: string, fix: boolean): Promise<DoctorRecordResult | null> {
+  const file = path.join(dataDir, kind, name);
+  const result: DoctorRecordResult = { kind, file: `${kind}/${name}`, status: "migration", migrations: [], issues: [], repairs: [] };
+  const expectedId = name.slice(0, -".json".length);
+
+  return withFileLock(file, async () => {
+    const text = await fs.readFile(file, "utf-8");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (err: any) {
+      result.status = "unreadable";
+      result.issues.push(`JSON 파싱 실패: ${err?.message ?? String(err)}`);
+    }
+
+    if (result.status === "unreadable" || !isObject(raw)) {
+      if (result.status !== "unreadable") {
+        result.status = "unreadable";
+        result.issues.push("레코드가 JSON 객체가 아닙니다");
+      }
+      if (fix) {
+        await moveToQuarantine(dataDir, kind, name);
+        result.action = "quarantined";
+      }
+      return result;
+    }
+
+    const check = checkRecord(kind, raw);
+    result.migrations = check.migrations;
+    let record: Record<string, unknown> = check.record;
+
+    if (record.id !== expectedId) {
+      result.repairs.push(`id: ${String(record.id)} → ${expectedId} (파일명 기준)`);
+      record = { ...record, id: expectedId };
+    }
+
+    if (!check.ok) {
+      result.status = "invalid";
+      result.issues = check.issues;
+      const newer = typeof raw.schema_version === "number" && raw.schema_version > CURRENT_VERSIONS[kind];
+      const repaired = newer || (kind === "reviews" && !isObject(record.target))
+        ? null
+        : (kind === "reviews" ? repairReview(record) : repairTask(record));
+      if (!repaired || !checkRecord(kind, repaired.record).ok) {
+        result.repairs = [];
+        result.issues.push(newer ? "이 서버보다 새 버전에서 저장한 레코드라 수정하지 않습니다" : "자동 복구할 수 없습니다");
+        // 새 스키마 버전은 다른 클라이언트가 최신 서버일 수 있으므로 격리하지 않음
+        if (fix && !newer) {
+          await moveToQuarantine(dataDir, kind, name);
+          result.action = "quarantined";
+        }
+        return result;
+      }
+      result.repairs.push(...repaired.repairs);
+      record = repaired.record;
+      if (!fix) return result;
+    } else if (!check.migrations.length && !result.repairs.length) {
+      return null;
+    } else if (!fix) {
+      return result;
+    }
+
+    await writeFileAtomic(`${file}.bak`, text);
+    await writeJsonAtomic(file, { ...record, revision: (typeof record.revision === "number" ? record.revision : 0) + 1 });
+    result.action = result.status === "invalid" || result.repairs.length ? "repaired" : "migrated";
+    return result;
+  });
+}
+
+/**
+ * DATA_DIR 전체 점검 (fix면 복구 후 인덱스 재생성)
+ * - JSON 저장소 전용 (SQLite는 트랜잭션으로 쓰므로 깨진 파일/잠금이 남지 않음)
+ */
+export async function runStorageDoctor(store: RecordStore, options: { fix?: boolean } = {}): Promise<DoctorReport> {
+  if (store.backend !== "json") {
+    throw new Error(`storage.doctor는 JSON 저장소 전용입니다 (현재: ${store.backend}).`);
+  }
+  const dataDir = store.dataDir;
+  const fix = options.fix ?? false;
+  const report: DoctorReport = { fix, scanned: { reviews: 0, tasks: 0 }, healthy: 0, records: [], cleaned: [] };
+
+  for (const dir of [...RECORD_KINDS, "index"]) {
+    const removed = await cleanupStaleFiles(path.join(dataDir, dir));
+    report.cleaned.push(...removed.map((name) => `${dir}/${name}`));
+  }
+
+  for (const kind of RECORD_KINDS) {
+    const dir = path.join(dataDir, kind);
+    await fs.mkdir(dir, { recursive: true });
+    const names = (await fs.readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+    for (const name of names) {
+      report.scanned[kind]++;
+      const result = await inspectRecord(dataDir, kind, name, fix);
+      if (result) report.records.push(result);
+      else report.healthy++;
+    }
+  }
+
+  if (fix) {
+    const reviews = await rebuildReviewIndex(store);
+    const tasks = await rebuildTaskIndex(store);
+    report.reindexed = { reviews: reviews.count, tasks: tasks.count };
+  }
+  return report;
+}
+
+const STATUS_LABELS: Record<DoctorRecordStatus, string> = {
+  migration: "🔄 갱신 필요 (읽기 가능)",
+  invalid: "❌ 검증 실패",
+  unreadable: "❌ 읽을 수 없음",
+};
+
+const ACTION_LABELS: Record<NonNullable<DoctorRecordResult["action"]>, string> = {
+  migrated: "✅ 현재 버전으로 저장",
+  repaired: "✅ 복구 후 저장",
+  quarantined: "📦 quarantine/로 이동",
+};
+
+/**
+ * 점검 결과 마크다운
+ */
+export function formatDoctorReport(report: DoctorReport): string {
+  const lines: string[] = [];
+  const problems = report.records.filter((r) => r.status !== "migration");
+  const unresolved = report.fix ? report.records.filter((r) => !r.action) : report.records;
+
+  if (!report.records.length) {
+    lines.push("✅ 저장소 점검 완료: 문제 없음");
+  } else if (report.fix) {
+    lines.push(`${unresolved.length ? "⚠️" : "✅"} 저장소 점검 및 복구 완료`);
+  } else {
+    lines.push(`${problems.length ? "⚠️" : "ℹ️"} 저장소 점검 완료: 확인이 필요한 레코드 ${report.records.length}개`);
+  }
+  lines.push("");
+  lines.push(`- 리뷰: ${report.scanned.reviews}개, Task: ${report.scanned.tasks}개 검사`);
+  lines.push(`- 정상: ${report.healthy}개`);
+  if (report.records.length) {
+    lines.push(`- 갱신 필요: ${report.records.filter((r) => r.status === "migration").length}개`);
+    lines.push(`- 검증 실패/읽을 수 없음: ${problems.length}개`);
+  }
+  if (report.cleaned.length) {
+    lines.push(`- 정리한 임시 파일/잠금: ${report.cleaned.length}개`);
+  }
+  if (report.reindexed) {
+    lines.push(`- 인덱스 재생성: 리뷰 ${report.reindexed.reviews}개, Task ${report.reindexed.tasks}개`);
+  }
+
+  if (report.records.length) {
+    lines.push("");
+    lines.push("## 레코드");
+    for (const r of report.records) {
+      lines.push("");
+      lines.push(`### \`${r.file}\``);
+      lines.push(`- 상태: ${STATUS_LABELS[r.status]}`);
+      if (r.action) lines.push(`- 처리: ${ACTION_LABELS[r.action]}`);
+      for (const m of r.migrations) lines.push(`- 마이그레이션: ${m}`);
+      for (const issue of r.issues) lines.push(`- 오류: ${issue}`);
+      for (const repair of r.repairs) lines.push(`- 복구${r.action ? "" : " 예정"}: ${repair}`);
+    }
+  }
+
+  if (report.cleaned.length) {
+    lines.push("");
+    lines.push("## 정리한 파일");
+    lines.push("");
+    for (const name of report.cleaned) lines.push(`- \`${name}\``);
+  }
+
+  lines.push("");
+  if (!report.fix && report.records.length) {
+    lines.push("➡️ `fix: true`로 다시 실행하면 마이그레이션/복구를 저장합니다 (원본은 `{파일}.bak`, 복구 불가 파일은 `quarantine/`).");
+  } else if (report.fix && report.records.some((r) => r.action)) {
+    lines.push("ℹ️ 수정 전 원본은 같은 위치의 `{파일}.bak`에 있습니다.");
+  }
+  return lines.join("\n").trimEnd();
+}
@@ -0,0 +1,220 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { withFileLock, writeJsonAtomic } from "./fileStore.js";
+import type { IndexEntry, RecordKind } from "./recordStore.js";
+
+/**
+ * JSON 저장소의 리뷰/Task 인덱스 ({DATA_DIR}/index/{reviews,tasks}.json)
+ *
+ * 목록 조회 때마다 모든 레코드 파일을 읽지 않도록 필터/정렬에 필요한 필드만 모아 둡니다.
+ * - 레코드를 저장/삭제할 때마다 갱신
+ * - 읽을 때 디렉토리의 레코드 파일 목록과 비교해 빠진 항목은 추가, 사라진 항목은 제거
+ *   (다른 도구로 파일을 추가/삭제한 경우 자동 보정)
+ * - 레코드 파일을 직접 수정했다면 storage.reindex로 전체 재생성
+ * - 인덱스 갱신은 인덱스 파일 잠금 안에서 최신 내용을 다시 읽어 반영 (동시 저장 시 유실 방지)
+ */
+
+// 인덱스 형식 버전 (바뀌면 다음 조회 때 재생성)
+// - 2: 레코드 마이그레이션(평가 라벨 정규화 등)을 반영한 항목
+const INDEX_VERSION = 2;
+
+type IndexFile<E extends IndexEntry> = {
+  version: number;
+  updated_at: string;
+  entries: E[];
+};
+
+export type IndexPage<E extends IndexEntry> = {
+  entries: E[];
+  /** 필터에 매칭된 전체 개수 */
+  total: number;
+  /** 다음 페이지 cursor (마지막 페이지면 없음) */
+  next_cursor?: string;
+};
+
+function getIndexPath(dataDir: string, kind: RecordKind): string {
+  return path.join(dataDir, "index", `${kind}.json`);
+}
+
+/**
+ * 레코드 파일 id 목록 (정렬하지 않음)
+ */
+export async function listRecordIds(dataDir: string, kind: RecordKind): Promise<string[]> {
+  const dir = path.join(dataDir, kind);
+  await fs.mkdir(dir, { recursive: true });
+  return (await fs.readdir(dir))
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length));
+}
+
+async function readRecordEntry<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  id: string,
+  toEntry: (record: unknown) => E
+): Promise<E> {
+  const txt = await fs.readFile(path.join(dataDir, kind, `${id}.json`), "utf-8");
+  return toEntry(JSON.parse(txt));
+}
+
+async function readIndexFile<E extends IndexEntry>(dataDir: string, kind: RecordKind): Promise<E[] | null> {
+  try {
+    const parsed: IndexFile<E> = JSON.parse(await fs.readFile(getIndexPath(dataDir, kind), "utf-8"));
+    return parsed.version === INDEX_VERSION && Array.isArray(parsed.entries) ? parsed.entries : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeIndexFile<E extends IndexEntry>(dataDir: string, kind: RecordKind, entries: E[]): Promise<void> {
+  const file: IndexFile<E> = {
+    version: INDEX_VERSION,
+    updated_at: new Date().toISOString(),
+    entries: [...entries].sort((a, b) => b.id.localeCompare(a.id)),
+  };
+  await writeJsonAtomic(getIndexPath(dataDir, kind), file);
+}
+
+/**
+ * 인덱스 파일 잠금 (index 디렉토리가 없으면 생성)
+ */
+async function withIndexLock<T>(dataDir: string, kind: RecordKind, fn: () => Promise<T>): Promise<T> {
+  await fs.mkdir(path.join(dataDir, "index"), { recursive: true });
+  return withFileLock(getIndexPath(dataDir, kind), fn);
+}
+
+/**
+ * 인덱스를 레코드 파일 목록에 맞춰 보정한 결과 (쓰지는 않음)
+ * - 인덱스가 없거나 깨졌으면 null
+ */
+async function loadSyncedEntries<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  toEntry: (record: unknown) => E
+): Promise<{ entries: E[]; changed: boolean } | null> {
+  const indexed = await readIndexFile<E>(dataDir, kind);
+  if (!indexed) return null;
+
+  const ids = new Set(await listRecordIds(dataDir, kind));
+  const entries = indexed.filter((e) => ids.has(e.id));
+  let changed = entries.length !== indexed.length;
+
+  const known = new Set(entries.map((e) => e.id));
+  for (const id of ids) {
+    if (known.has(id)) continue;
+    try {
+      entries.push(await readRecordEntry(dataDir, kind, id, toEntry));
+      changed = true;
+    } catch {
+      // 깨진 레코드는 인덱스에서 제외 (storage.reindex 결과에서 확인)
+    }
+  }
+  return { entries, changed };
+}
+
+async function collectEntries<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  toEntry: (record: unknown) => E
+): Promise<{ entries: E[]; errors: string[] }> {
+  const entries: E[] = [];
+  const errors: string[] = [];
+  for (const id of await listRecordIds(dataDir, kind)) {
+    try {
+      entries.push(await readRecordEntry(dataDir, kind, id, toEntry));
+    } catch (err: any) {
+      errors.push(`${kind}/${id}.json: ${err?.message ?? String(err)}`);
+    }
+  }
+  return { entries, errors };
+}
+
+/**
+ * 잠금 안에서 최신 인덱스(필요시 보정/재생성)를 읽고 update 결과를 저장
+ */
+async function modifyIndex<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  toEntry: (record: unknown) => E,
+  update: (entries: E[]) => E[]
+): Promise<E[]> {
+  return withIndexLock(dataDir, kind, async () => {
+    const synced = await loadSyncedEntries(dataDir, kind, toEntry);
+    const base = synced ? synced.entries : (await collectEntries(dataDir, kind, toEntry)).entries;
+    const next = update(base);
+    await writeIndexFile(dataDir, kind, next);
+    return next;
+  });
+}
+
+/**
+ * 인덱스 전체 재생성 (모든 레코드 파일을 다시 읽음)
+ * - 파싱에 실패한 파일은 건너뛰고 errors에 기록
+ */
+export async function rebuildIndex<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  toEntry: (record: unknown) => E
+): Promise<{ count: number; errors: string[] }> {
+  return withIndexLock(dataDir, kind, async () => {
+    const { entries, errors } = await collectEntries(dataDir, kind, toEntry);
+    await writeIndexFile(dataDir, kind, entries);
+    return { count: entries.length, errors };
+  });
+}
+
+/**
+ * 인덱스 항목 조회 (최신순)
+ * - 인덱스가 없거나 깨졌으면 재생성, 레코드 파일 목록과 다르면 차이만 보정
+ */
+export async function readIndex<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  toEntry: (record: unknown) => E
+): Promise<E[]> {
+  const synced = await loadSyncedEntries(dataDir, kind, toEntry);
+  const entries = synced && !synced.changed
+    ? synced.entries
+    : await modifyIndex(dataDir, kind, toEntry, (current) => current);
+  return [...entries].sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * 레코드 저장 후 인덱스 항목 추가/갱신
+ */
+export async function upsertIndexEntry<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  entry: E,
+  toEntry: (record: unknown) => E
+): Promise<void> {
+  await modifyIndex(dataDir, kind, toEntry, (entries) => [...entries.filter((e) => e.id !== entry.id), entry]);
+}
+
+/**
+ * 레코드 삭제 후 인덱스 항목 제거
+ */
+export async function removeIndexEntry<E extends IndexEntry>(
+  dataDir: string,
+  kind: RecordKind,
+  id: string,
+  toEntry: (record: unknown) => E
+): Promise<void> {
+  await modifyIndex(dataDir, kind, toEntry, (entries) => entries.filter((e) => e.id !== id));
+}
+
+/**
+ * cursor 기반 페이지 (entries는 최신순 정렬 상태)
+ * - cursor는 이전 페이지 마지막 항목의 id → 그보다 오래된 항목부터 반환
+ * - id에 생성 시각이 들어 있어 중간에 새 레코드가 추가되어도 페이지가 밀리지 않음
+ */
+export function paginate<E extends IndexEntry>(entries: E[], limit: number, cursor?: string): IndexPage<E> {
+  const rest = cursor ? entries.filter((e) => e.id.localeCompare(cursor) < 0) : entries;
+  const page = rest.slice(0, Math.max(1, limit));
+  return {
+    entries: page,
+    total: entries.length,
+    next_cursor: rest.length > page.length ? page[page.length - 1].id : undefined,
+  };
+}
@@ -0,0 +1,65 @@
+import { checkReviewRecord, checkTaskRecord } from "./recordSchemas.js";
+import type { RecordKind, RecordStore } from "./recordStore.js";
+
+/**
+ * 저장소 간 레코드 복사 (storage.migrate, JSON ↔ SQLite)
+ *
+ * - 원본 저장소는 변경하지 않음 (확인 후 STORAGE_BACKEND를 바꾸고 원본은 직접 정리)
+ * - 레코드는 현재 스키마 버전으로 마이그레이션한 뒤 저장, 검증에 실패한 레코드는 건너뛰고 보고
+ * - 대상에 같은 id가 있으면 건너뜀 (overwrite면 덮어씀) → 여러 번 실행해도 안전
+ */
+
+export type StorageMigrationResult = {
+  from: { backend: string; location: string };
+  to: { backend: string; location: string };
+  copied: Record<RecordKind, number>;
+  /** 대상에 이미 있어 건너뜀 */
+  existing: Record<RecordKind, number>;
+  /** 검증 실패 등으로 복사하지 못한 레코드 */
+  failed: string[];
+};
+
+const RECORD_KINDS: RecordKind[] = ["reviews", "tasks"];
+
+export async function migrateStorage(
+  from: RecordStore,
+  to: RecordStore,
+  options: { overwrite?: boolean } = {}
+): Promise<StorageMigrationResult> {
+  const result: StorageMigrationResult = {
+    from: { backend: from.backend, location: from.location },
+    to: { backend: to.backend, location: to.location },
+    copied: { reviews: 0, tasks: 0 },
+    existing: { reviews: 0, tasks: 0 },
+    failed: [],
+  };
+
+  // 대상 저장소를 열 수 없으면(SQLite 미지원 Node.js 등) 레코드마다 실패하지 않고 바로 에러
+  await to.ids("reviews");
+
+  for (const kind of RECORD_KINDS) {
+    for (const id of await from.ids(kind)) {
+      try {
+        const check = kind === "reviews" ? checkReviewRecord(await from.read(kind, id)) : checkTaskRecord(await from.read(kind, id));
+        if (!check.ok) {
+          result.failed.push(`${kind}/${id}: ${check.issues.join("; ")}`);
+          continue;
+        }
+        const record = { ...check.record, id };
+        if (await to.has(kind, id)) {
+          if (!options.overwrite) {
+            result.existing[kind]++;
+            continue;
+          }
+          await to.modify(kind, id, () => record);
+        } else {
+          await to.insert(kind, record);
+        }
+        result.copied[kind]++;
+      } catch (err: any) {
+        result.failed.push(`${kind}/${id}: ${err?.message ?? String(err)}`);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,155 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+import { parseUnifiedDiff, type DiffFile } from "./diffParser.js";
+import { normalizeFindingPath } from "./findingValidator.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Task 실행 시점의 git 상태 (task.verify/task.complete에서 이후 변경을 계산하는 기준)
+ */
+export type TaskBaseline = {
+  repo_path: string;
+  /** task.execute 시점의 HEAD 커밋 */
+  head: string;
+  /** task.execute 시점의 브랜치 (detached HEAD면 없음) */
+  branch?: string;
+  /**
+   * 작업 트리 스냅샷 커밋 (`git stash create`, 변경이 없으면 head와 동일)
+   * - 실행 전부터 있던 수정은 "이후 변경"에 포함되지 않도록 하기 위함
+   */
+  snapshot: string;
+  /** 실행 시점에 커밋되지 않은 변경이 있었는지 */
+  dirty: boolean;
+  /** 실행 시점의 untracked 파일 → 내용 해시 (stash 스냅샷에 포함되지 않으므로 별도 기록) */
+  untracked?: Record<string, string>;
+  captured_at: string;
+};
+
+export type BaselineDiff = {
+  diff: string;
+  files: DiffFile[];
+  /** 비교에 사용한 기준 ref */
+  base: string;
+  /** 기준 대비 HEAD가 이동했으면 현재 HEAD */
+  moved_head?: string;
+  notes: string[];
+};
+
+async function git(repoPath: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd: repoPath, maxBuffer: 20 * 1024 * 1024 });
+  return stdout;
+}
+
+async function refExists(repoPath: string, ref: string): Promise<boolean> {
+  try {
+    await git(repoPath, ["cat-file", "-e", `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// untracked 파일은 너무 많으면 해시 계산 비용이 커지므로 상한을 둠
+const MAX_UNTRACKED_FILES = 200;
+
+async function listUntracked(repoPath: string, pathArgs: string[] = []): Promise<string[]> {
+  return (await git(repoPath, ["ls-files", "--others", "--exclude-standard", "-z", ...pathArgs]))
+    .split("\0")
+    .filter(Boolean)
+    .slice(0, MAX_UNTRACKED_FILES);
+}
+
+async function hashUntracked(repoPath: string, paths: string[]): Promise<Record<string, string>> {
+  if (!paths.length) return {};
+  const hashes = (await git(repoPath, ["hash-object", "--", ...paths])).trim().split("\n");
+  return Object.fromEntries(paths.map((p, i) => [p, hashes[i]]));
+}
+
+/**
+ * 현재 HEAD와 작업 트리 상태 기록 (작업 트리/인덱스는 변경하지 않음)
+ */
+export async function captureBaseline(repoPath: string): Promise<TaskBaseline> {
+  const head = (await git(repoPath, ["rev-parse", "HEAD"])).trim();
+  const branch = (await git(repoPath, ["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+  const stash = (await git(repoPath, ["stash", "create"])).trim();
+  const untracked = await hashUntracked(repoPath, await listUntracked(repoPath));
+  return {
+    repo_path: repoPath,
+    head,
+    ...(branch && branch !== "HEAD" ? { branch } : {}),
+    snapshot: stash || head,
+    dirty: Boolean(stash) || Object.keys(untracked).length > 0,
+    ...(Object.keys(untracked).length ? { untracked } : {}),
+    captured_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * 기준 이후 변경된 diff (file 지정시 해당 파일만)
+ * - 스냅샷 커밋이 gc 등으로 사라졌으면 HEAD 커밋 기준으로 대체
+ * - 기준 시점에 없던 untracked 파일은 신규 파일 diff로 포함
+ */
+export async function diffSinceBaseline(baseline: TaskBaseline, file?: string): Promise<BaselineDiff> {
+  const repoPath = baseline.repo_path;
+  const notes: string[] = [];
+
+  let base = baseline.snapshot;
+  if (!(await refExists(repoPath, base))) {
+    base = baseline.head;
+    notes.push("실행 시점 작업 트리 스냅샷을 찾을 수 없어 HEAD 커밋 기준으로 비교했습니다 (실행 전 수정 사항이 포함될 수 있음).");
+  }
+
+  const target = file ? normalizeFindingPath(file, repoPath) : undefined;
+  const pathArgs = target ? ["--", target] : [];
+  let diff = await git(repoPath, ["diff", base, ...pathArgs]);
+
+  // untracked 파일: 기준 시점과 내용이 같으면 제외, 새로 만들었거나 바뀌었으면 신규 파일 diff로 포함
+  const untracked = await listUntracked(repoPath, pathArgs);
+  const currentHashes = await hashUntracked(repoPath, untracked);
+  for (const path of untracked) {
+    const before = baseline.untracked?.[path];
+    if (before === currentHashes[path]) continue;
+    if (before) {
+      notes.push(`\`${path}\`는 실행 전부터 있던 untracked 파일이라 전체 내용을 신규로 표시합니다.`);
+    }
+    try {
+      await git(repoPath, ["diff", "--no-index", "--", "/dev/null", path]);
+    } catch (err: any) {
+      // --no-index는 차이가 있으면 exit code 1로 종료 - stdout이 실제 diff
+      if (err?.code === 1 && typeof err.stdout === "string") {
+        diff = diff ? `${diff.trimEnd()}\n${err.stdout}` : err.stdout;
+      }
+    }
+  }
+
+  const head = (await git(repoPath, ["rev-parse", "HEAD"])).trim();
+  return {
+    diff,
+    files: parseUnifiedDiff(diff),
+    base,
+    moved_head: head !== baseline.head ? head : undefined,
+    notes,
+  };
+}
+
+/**
+ * 기준 파일의 라인 범위(startLine~endLine)가 diff에서 수정/삭제되었거나 그 사이에 라인이 추가되었는지
+ * - Task의 라인 번호는 실행 전(기준) 파일 기준이므로 변경 전(old) 라인으로 판단
+ */
+export function isLineRangeTouched(file: DiffFile, startLine: number, endLine = startLine): boolean {
+  for (const hunk of file.hunks) {
+    // -U0의 순수 추가 헌크(-N,0)는 oldStart가 "N번 라인 뒤"를 뜻함
+    let lastOldLine = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    for (const line of hunk.lines) {
+      if (line.type === "add") {
+        if (lastOldLine >= startLine - 1 && lastOldLine <= endLine) return true;
+        continue;
+      }
+      lastOldLine = line.oldLine ?? lastOldLine;
+      if (line.type === "del" && lastOldLine >= startLine && lastOldLine <= endLine) return true;
+    }
+  }
+  return false;
+}
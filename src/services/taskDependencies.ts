@@ -0,0 +1,228 @@
+import { withDataDirLock } from "./fileStore.js";
+import { getTask, listTasks, updateTask, type Task } from "./taskStorage.js";
+import type { RecordStore } from "./recordStore.js";
+import { SEVERITY_RANK } from "./reviewConsistency.js";
+
+/**
+ * Task 의존성 (depends_on / blocks)
+ *
+ * - A.depends_on에 B가 있으면 B.blocks에 A가 있도록 양방향으로 유지
+ * - completed/cancelled Task는 더 이상 후행 Task를 막지 않음
+ * - 의존성 추가는 저장소 전체에서 하나의 잠금으로 직렬화 (동시에 A→B, B→A를 추가해 순환이 생기지 않도록)
+ */
+
+export type QueuedTask = {
+  task: Task;
+  /** 아직 끝나지 않은 선행 Task id */
+  blocked_by: string[];
+};
+
+// 후행 Task를 막지 않는 상태
+const DONE_STATUSES: Task["status"][] = ["completed", "cancelled"];
+
+export function isTaskDone(task: Task): boolean {
+  return DONE_STATUSES.includes(task.status);
+}
+
+/**
+ * taskId가 dependsOnId에 의존하게 되면 생기는 순환 경로 (없으면 null)
+ * - dependsOnId에서 depends_on을 따라가다 taskId에 닿으면 순환
+ */
+export function findDependencyCycle(tasks: Task[], taskId: string, dependsOnId: string): string[] | null {
+  if (taskId === dependsOnId) return [taskId, taskId];
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return [taskId, ...path];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of byId.get(id)?.depends_on ?? []) {
+      const found = visit(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return visit(dependsOnId, [dependsOnId]);
+}
+
+/**
+ * 아직 끝나지 않은 선행 Task (삭제되어 없는 Task는 missing으로 분리)
+ */
+export function getIncompleteDependencies(
+  task: Task,
+  tasks: Task[]
+): { incomplete: Task[]; missing: string[] } {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const incomplete: Task[] = [];
+  const missing: string[] = [];
+  for (const id of task.depends_on ?? []) {
+    const dep = byId.get(id);
+    if (!dep) missing.push(id);
+    else if (!isTaskDone(dep)) incomplete.push(dep);
+  }
+  return { incomplete, missing };
+}
+
+function compareForQueue(a: Task, b: Task): number {
+  if (a.status !== b.status) return a.status === "in_progress" ? -1 : 1;
+  const rank = (t: Task) => (t.severity === "needs_confirmation" ? 4 : SEVERITY_RANK[t.severity]);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * 진행 중/대기 Task의 실행 순서 (위상 정렬)
+ * - 선행 Task가 모두 끝난 Task부터, 같은 단계에서는 in_progress → 평가 라벨 → 생성 순
+ * - 순환이 남아 있으면(직접 수정된 파일 등) 남은 Task를 뒤에 그대로 붙임
+ */
+export function orderTaskQueue(tasks: Task[]): QueuedTask[] {
+  const active = tasks.filter((t) => !isTaskDone(t));
+  const activeIds = new Set(active.map((t) => t.id));
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+
+  const indegree = new Map<string, number>();
+  for (const t of active) {
+    indegree.set(t.id, (t.depends_on ?? []).filter((id) => activeIds.has(id)).length);
+  }
+
+  const ordered: Task[] = [];
+  let ready = active.filter((t) => indegree.get(t.id) === 0).sort(compareForQueue);
+  while (ready.length) {
+    const next = ready.shift()!;
+    ordered.push(next);
+    for (const id of next.blocks ?? []) {
+      if (!indegree.has(id)) continue;
+      const remaining = indegree.get(id)! - 1;
+      indegree.set(id, remaining);
+      if (remaining === 0) {
+        ready.push(byId.get(id)!);
+        ready = ready.sort(compareForQueue);
+      }
+    }
+  }
+
+  const placed = new Set(ordered.map((t) => t.id));
+  ordered.push(...active.filter((t) => !placed.has(t.id)).sort(compareForQueue));
+
+  return ordered.map((task) => ({
+    task,
+    blocked_by: (task.depends_on ?? []).filter((id) => activeIds.has(id)),
+  }));
+}
+
+/**
+ * 의존성 추가 잠금
+ * - 레코드 잠금은 Task마다 따로라서 순환 검사와 저장 사이에 다른 링크가 끼어들 수 있음
+ */
+async function withTaskLinkLock<T>(store: RecordStore, fn: () => Promise<T>): Promise<T> {
+  return withDataDirLock(store.dataDir, "task-links", fn);
+}
+
+/**
+ * 의존성 추가 (taskId가 dependsOnIds 완료 후 시작 가능)
+ * - 순환이 생기면 아무것도 저장하지 않고 에러
+ * - 순환 검사는 잠금 안에서 최신 Task 목록 기준
+ * - depends_on(순환 검사 기준)을 먼저 저장하고, blocks 저장이 실패하면 이번에 추가한 참조를 되돌림
+ */
+export async function linkTasks(store: RecordStore, taskId: string, dependsOnIds: string[]): Promise<Task> {
+  return withTaskLinkLock(store, () => linkTasksLocked(store, taskId, [...new Set(dependsOnIds)]));
+}
+
+async function linkTasksLocked(store: RecordStore, taskId: string, dependsOnIds: string[]): Promise<Task> {
+  const tasks = await listTasks(store);
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const original = byId.get(taskId);
+  if (!original) throw new Error(`Task를 찾을 수 없습니다: ${taskId}`);
+
+  for (const depId of dependsOnIds) {
+    if (!byId.has(depId)) throw new Error(`Task를 찾을 수 없습니다: ${depId}`);
+    const cycle = findDependencyCycle([...byId.values()], taskId, depId);
+    if (cycle) {
+      throw new Error(`순환 의존성이 생깁니다: ${cycle.join(" → ")}`);
+    }
+    // 같은 요청 안의 다음 링크도 순환 검사에 반영
+    const current = byId.get(taskId)!;
+    byId.set(taskId, { ...current, depends_on: [...new Set([...(current.depends_on ?? []), depId])] });
+  }
+
+  const addedDeps = dependsOnIds.filter((id) => !(original.depends_on ?? []).includes(id));
+  const updated = await setDependsOn(store, taskId, (deps) => [...new Set([...deps, ...dependsOnIds])]);
+
+  const blockedDeps: string[] = [];
+  try {
+    for (const depId of dependsOnIds) {
+      if (byId.get(depId)!.blocks?.includes(taskId)) continue;
+      await addBlock(store, depId, taskId);
+      blockedDeps.push(depId);
+    }
+  } catch (err) {
+    await tryRevert(() => setDependsOn(store, taskId, (deps) => deps.filter((id) => !addedDeps.includes(id))));
+    for (const depId of blockedDeps) {
+      await tryRevert(() => removeBlock(store, depId, taskId));
+    }
+    throw err;
+  }
+  return updated;
+}
+
+async function addBlock(store: RecordStore, depId: string, taskId: string): Promise<void> {
+  await updateTask(store, depId, (dep) => ({ blocks: [...new Set([...(dep.blocks ?? []), taskId])] }));
+}
+
+async function removeBlock(store: RecordStore, depId: string, taskId: string): Promise<void> {
+  await updateTask(store, depId, (dep) => {
+    const blocks = (dep.blocks ?? []).filter((id) => id !== taskId);
+    return { blocks: blocks.length ? blocks : undefined };
+  });
+}
+
+/**
+ * 실패한 링크/언링크 되돌리기 (되돌리기도 실패하면 원래 에러를 우선)
+ */
+async function tryRevert(revert: () => Promise<unknown>): Promise<void> {
+  try {
+    await revert();
+  } catch {
+    // 원래 에러를 전달 (남은 참조는 task.unlink로 정리)
+  }
+}
+
+function setDependsOn(store: RecordStore, taskId: string, update: (deps: string[]) => string[]): Promise<Task> {
+  return updateTask(store, taskId, (current) => {
+    const deps = update(current.depends_on ?? []);
+    return { depends_on: deps.length ? deps : undefined };
+  });
+}
+
+/**
+ * 의존성 제거
+ * - depends_on(순환 검사 기준)을 먼저 지우고, blocks 정리가 실패하면 되돌림
+ * - 이미 삭제된 선행 Task는 이쪽 참조만 정리
+ */
+export async function unlinkTasks(store: RecordStore, taskId: string, dependsOnIds: string[]): Promise<Task> {
+  return withTaskLinkLock(store, () => unlinkTasksLocked(store, taskId, [...new Set(dependsOnIds)]));
+}
+
+async function unlinkTasksLocked(store: RecordStore, taskId: string, dependsOnIds: string[]): Promise<Task> {
+  const original = await getTask(store, taskId);
+  const removedDeps = dependsOnIds.filter((id) => (original.depends_on ?? []).includes(id));
+  const updated = await setDependsOn(store, taskId, (deps) => deps.filter((id) => !dependsOnIds.includes(id)));
+
+  const unblockedDeps: string[] = [];
+  try {
+    for (const depId of dependsOnIds) {
+      if (!(await store.has("tasks", depId))) continue;
+      await removeBlock(store, depId, taskId);
+      unblockedDeps.push(depId);
+    }
+  } catch (err) {
+    await tryRevert(() => setDependsOn(store, taskId, (deps) => [...new Set([...deps, ...removedDeps])]));
+    for (const depId of unblockedDeps.filter((id) => removedDeps.includes(id))) {
+      await tryRevert(() => addBlock(store, depId, taskId));
+    }
+    throw err;
+  }
+  return updated;
+}
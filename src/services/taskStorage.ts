@@ -1,7 +1,17 @@
-import fs from "node:fs/promises";
-import path from "node:path";
 import crypto from "node:crypto";
 
+import { withDataDirLock } from "./fileStore.js";
+import { stripCodeFence } from "./patch.js";
+import { computeFindingFingerprint } from "./findingFingerprint.js";
+import { matchGlob } from "./glob.js";
+import { SEVERITY_RANK } from "./reviewConsistency.js";
+import { getTransitionError, isReopen } from "./taskTransitions.js";
+import type { TaskBaseline } from "./taskBaseline.js";
+import { paginate } from "./storageIndex.js";
+import type { RecordStore } from "./recordStore.js";
+import { parseStoredTask, recordIdOf, TASK_SCHEMA_VERSION } from "./recordSchemas.js";
+import { summarizeVerificationRun, type VerificationRun } from "./verification.js";
+
 export type TaskStatus = "pending" | "in_progress" | "completed" | "cancelled";
 
 // 평가 라벨 (점수 기반)
@@ -12,15 +22,32 @@ export type SeverityType =
   | "required"            // 필수 (39~0점)
   | "needs_confirmation"; // 확인요청 (확신이 없는 경우)
 
+// 상태 변경 이력 (추가만 가능)
+export type TaskHistoryEntry = {
+  /** 이전 상태 (생성 시 null) */
+  from: TaskStatus | null;
+  to: TaskStatus;
+  at: string;
+  /** 변경한 도구 (예: task.execute) */
+  tool: string;
+  note?: string;
+};
+
 export type Task = {
   id: string;
   created_at: string;
   updated_at: string;
+  /** 레코드 스키마 버전 (없으면 1, 읽을 때 현재 버전으로 마이그레이션) */
+  schema_version?: number;
+  /** 저장할 때마다 1씩 증가 (동시 수정 감지용, 이전 데이터는 없을 수 있음) */
+  revision?: number;
   status: TaskStatus;
 
   // 원본 리뷰 연결 (선택)
   source_review_id?: string;
   source_finding_index?: number;
+  // 원본 finding 지문 (다른 리뷰의 같은 이슈로 중복 Task가 생기지 않도록)
+  source_fingerprint?: string;
 
   // Task 내용
   title: string;
@@ -31,20 +58,109 @@ export type Task = {
   severity: SeverityType;
   category?: string;
 
+  // 의존성 (depends_on: 먼저 끝나야 하는 Task, blocks: 이 Task가 끝나야 시작할 수 있는 Task)
+  depends_on?: string[];
+  blocks?: string[];
+
   // 수정 제안
   suggestion_patch_diff?: string;
+  // task.apply_patch로 제안 패치를 자동 적용한 시각 (수동 수정과 구분)
+  patch_auto_applied_at?: string;
+
+  // task.execute 시점의 git 상태 (task.verify/task.complete에서 이후 변경 계산)
+  baseline?: TaskBaseline;
+
+  // task.verify의 검증 명령 실행 결과 (최근 MAX_VERIFICATION_RUNS개, 오래된 순)
+  verification_runs?: VerificationRun[];
 
   // 완료 정보
   completed_at?: string;
   verification_note?: string;
+  // 완료 시점에 대상 파일 변경이 없었음 (기준 이후 diff가 비어 있음)
+  completed_without_changes?: boolean;
+
+  // 상태 변경 이력
+  history?: TaskHistoryEntry[];
+};
+
+// 인덱스 항목 (목록/필터/통계용 요약)
+export type TaskIndexEntry = {
+  id: string;
+  status: TaskStatus;
+  severity: SeverityType;
+  category?: string;
+  file?: string;
+  title: string;
+  source_review_id?: string;
+  source_finding_index?: number;
+  source_fingerprint?: string;
+  /** task.execute 시점의 브랜치 */
+  branch?: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+};
+
+export type TaskQuery = {
+  status?: TaskStatus;
+  severity?: SeverityType;
+  category?: string;
+  /** 파일 경로 또는 glob */
+  file?: string;
+  source_review_id?: string;
+  cursor?: string;
+  limit?: number;
+};
+
+// 상태/이력 변경은 updateTaskStatus로만 가능
+type TaskUpdates = Partial<Omit<Task, "id" | "created_at" | "schema_version" | "revision" | "status" | "history">>;
+
+export type TaskWriteOptions = {
+  /** 지정하면 저장 직전 revision이 다를 때 에러 (조회 후 다른 클라이언트가 수정한 경우) */
+  expectedRevision?: number;
 };
 
 function nowIso() {
   return new Date().toISOString();
 }
 
-export async function ensureTaskDirs(dataDir: string) {
-  await fs.mkdir(path.join(dataDir, "tasks"), { recursive: true });
+function toTaskIndexEntry(task: Task): TaskIndexEntry {
+  return {
+    id: task.id,
+    status: task.status,
+    severity: task.severity,
+    category: task.category,
+    file: task.file,
+    title: task.title,
+    source_review_id: task.source_review_id,
+    source_finding_index: task.source_finding_index,
+    source_fingerprint: task.source_fingerprint,
+    branch: task.baseline?.branch,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+    completed_at: task.completed_at,
+  };
+}
+
+/**
+ * 저장된 원본 레코드 → 인덱스 항목 (마이그레이션/검증 포함, 저장소가 인덱스를 만들 때 사용)
+ */
+export function taskIndexEntryFromRecord(raw: unknown): TaskIndexEntry {
+  return toTaskIndexEntry(parseStoredTask(raw, recordIdOf(raw)));
+}
+
+/**
+ * Task 인덱스 조회 (최신순)
+ */
+export async function readTaskIndex(store: RecordStore): Promise<TaskIndexEntry[]> {
+  return store.entries("tasks");
+}
+
+/**
+ * Task 인덱스 재생성
+ */
+export async function rebuildTaskIndex(store: RecordStore): Promise<{ count: number; errors: string[] }> {
+  return store.reindex("tasks");
 }
 
 export function newTaskId() {
@@ -55,130 +171,329 @@ export function newTaskId() {
  * Task 저장 (신규 생성)
  */
 export async function saveTask(
-  dataDir: string,
-  task: Omit<Task, "id" | "created_at" | "updated_at">
+  store: RecordStore,
+  task: Omit<Task, "id" | "created_at" | "updated_at" | "schema_version" | "revision" | "history">,
+  meta: { tool: string; note?: string } = { tool: "task.create" }
 ): Promise<Task> {
-  await ensureTaskDirs(dataDir);
   const id = newTaskId();
   const now = nowIso();
-  const full: Task = { id, created_at: now, updated_at: now, ...task };
+  const full: Task = {
+    id,
+    created_at: now,
+    updated_at: now,
+    schema_version: TASK_SCHEMA_VERSION,
+    revision: 1,
+    ...task,
+    history: [{ from: null, to: task.status, at: now, tool: meta.tool, ...(meta.note ? { note: meta.note } : {}) }],
+  };
 
-  const file = path.join(dataDir, "tasks", `${id}.json`);
-  await fs.writeFile(file, JSON.stringify(full, null, 2), "utf-8");
+  await store.insert("tasks", full);
   return full;
 }
 
+/**
+ * Task 잠금(트랜잭션) → 최신 내용 조회 → mutate → 저장 → 인덱스 갱신
+ * - 모든 Task 수정은 이 함수를 거침 (동시 수정 시 나중 쓰기가 앞선 변경을 덮어쓰지 않도록)
+ * - mutate에서 던진 에러는 그대로 전달 (저장하지 않음)
+ */
+async function mutateTask(
+  store: RecordStore,
+  id: string,
+  mutate: (current: Task) => Task,
+  options: TaskWriteOptions = {}
+): Promise<Task> {
+  return store.modify("tasks", id, (raw) => {
+    const current = parseStoredTask(raw, id);
+    const revision = current.revision ?? 0;
+    if (options.expectedRevision !== undefined && options.expectedRevision !== revision) {
+      throw new Error(
+        `Task ${id}가 다른 곳에서 먼저 수정되었습니다 (조회 시 revision ${options.expectedRevision}, 현재 ${revision}). 다시 조회한 뒤 시도하세요.`
+      );
+    }
+    return { ...mutate(current), id, updated_at: nowIso(), revision: revision + 1 };
+  });
+}
+
 /**
  * Task 업데이트
+ * - updates에 함수를 넘기면 잠금 안에서 읽은 최신 Task 기준으로 계산 (배열 필드 추가/제거 등)
  */
 export async function updateTask(
-  dataDir: string,
+  store: RecordStore,
   id: string,
-  updates: Partial<Omit<Task, "id" | "created_at">>
+  updates: TaskUpdates | ((current: Task) => TaskUpdates),
+  options?: TaskWriteOptions
 ): Promise<Task> {
-  const existing = await getTask(dataDir, id);
-  const updated: Task = {
-    ...existing,
-    ...updates,
-    updated_at: nowIso(),
-  };
+  return mutateTask(
+    store,
+    id,
+    (current) => ({ ...current, ...(typeof updates === "function" ? updates(current) : updates) }),
+    options
+  );
+}
+
+// Task당 보관하는 검증 실행 결과 개수
+const MAX_VERIFICATION_RUNS = 10;
 
-  const file = path.join(dataDir, "tasks", `${id}.json`);
-  await fs.writeFile(file, JSON.stringify(updated, null, 2), "utf-8");
-  return updated;
+/**
+ * 검증 실행 결과 추가 (오래된 결과는 버림)
+ */
+export async function appendVerificationRun(store: RecordStore, id: string, run: VerificationRun): Promise<Task> {
+  return updateTask(store, id, (current) => ({
+    verification_runs: [...(current.verification_runs ?? []), run].slice(-MAX_VERIFICATION_RUNS),
+  }));
+}
+
+/**
+ * 현재 작업 회차의 마지막 검증 실행 (마지막 reopen 이전의 실행은 제외)
+ * - 다시 연 Task는 task.verify를 다시 실행해야 requirePassing을 통과
+ */
+export function getLatestVerificationRun(task: Task): VerificationRun | undefined {
+  const reopenedAt = [...(task.history ?? [])].reverse().find((h) => h.from !== null && isReopen(h.from, h.to))?.at;
+  const run = task.verification_runs?.at(-1);
+  return run && (!reopenedAt || run.started_at >= reopenedAt) ? run : undefined;
 }
 
 /**
  * Task 상태 변경
+ * - 허용되지 않은 전이, 사유 없는 reopen은 에러
+ * - 같은 상태로의 변경은 이력을 남기지 않음
+ * - reopen 시 완료 정보(completed_at, verification_note)는 지우고 이력에만 남김
+ *   (검증 실행 기록은 남기되 getLatestVerificationRun이 reopen 이전 실행을 무시)
  */
 export async function updateTaskStatus(
-  dataDir: string,
+  store: RecordStore,
   id: string,
   status: TaskStatus,
-  extra?: { completed_at?: string; verification_note?: string }
+  meta: { tool: string; note?: string },
+  extra?: TaskUpdates,
+  options?: TaskWriteOptions
 ): Promise<Task> {
-  return updateTask(dataDir, id, { status, ...extra });
+  const existing = await getTask(store, id);
+  if (existing.status === status && !extra) {
+    return existing;
+  }
+
+  return mutateTask(store, id, (current) => {
+    if (current.status === status) {
+      return { ...current, ...extra };
+    }
+
+    const error = getTransitionError(current.status, status, meta.note);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const entry: TaskHistoryEntry = { from: current.status, to: status, at: nowIso(), tool: meta.tool };
+    if (meta.note?.trim()) entry.note = meta.note.trim();
+
+    const next: Task = { ...current, ...extra, status, history: [...(current.history ?? []), entry] };
+    if (isReopen(current.status, status)) {
+      delete next.completed_at;
+      delete next.verification_note;
+      delete next.completed_without_changes;
+      delete next.baseline;
+    }
+    return next;
+  }, options);
+}
+
+function matchesTaskQuery(entry: TaskIndexEntry, query: TaskQuery): boolean {
+  if (query.status && entry.status !== query.status) return false;
+  if (query.severity && entry.severity !== query.severity) return false;
+  if (query.category && entry.category !== query.category) return false;
+  if (query.source_review_id && entry.source_review_id !== query.source_review_id) return false;
+  if (query.file && !(entry.file && (entry.file === query.file || matchGlob(entry.file, query.file)))) return false;
+  return true;
+}
+
+// 인덱스 조회 이후 삭제된 Task는 건너뜀
+async function readTasks(store: RecordStore, ids: string[]): Promise<Task[]> {
+  const out: Task[] = [];
+  for (const id of ids) {
+    try {
+      out.push(await getTask(store, id));
+    } catch {
+      // 삭제됨
+    }
+  }
+  return out;
 }
 
 /**
- * Task 목록 조회 (상태 필터링 가능)
+ * Task 목록 조회 (상태 필터링 가능, 최신순)
  */
 export async function listTasks(
-  dataDir: string,
+  store: RecordStore,
   options?: { status?: TaskStatus; limit?: number }
 ): Promise<Task[]> {
-  await ensureTaskDirs(dataDir);
-  const dir = path.join(dataDir, "tasks");
-  const files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
-
-  // 최신이 위로
-  files.sort((a, b) => b.localeCompare(a));
+  const entries = (await readTaskIndex(store)).filter((e) => matchesTaskQuery(e, { status: options?.status }));
+  const sliced = options?.limit ? entries.slice(0, options.limit) : entries;
+  return readTasks(store, sliced.map((e) => e.id));
+}
 
-  const out: Task[] = [];
-  for (const f of files) {
-    const txt = await fs.readFile(path.join(dir, f), "utf-8");
-    const task: Task = JSON.parse(txt);
-    
-    // 상태 필터링
-    if (options?.status && task.status !== options.status) {
-      continue;
-    }
-    
-    out.push(task);
-    
-    // limit 체크
-    if (options?.limit && out.length >= options.limit) {
-      break;
-    }
-  }
-  return out;
+/**
+ * Task 검색 (필터 + cursor 페이지네이션, 페이지에 해당하는 레코드만 읽음)
+ */
+export async function queryTasks(
+  store: RecordStore,
+  query: TaskQuery
+): Promise<{ tasks: Task[]; total: number; next_cursor?: string }> {
+  const entries = (await readTaskIndex(store)).filter((e) => matchesTaskQuery(e, query));
+  const page = paginate(entries, query.limit ?? 20, query.cursor);
+  return {
+    tasks: await readTasks(store, page.entries.map((e) => e.id)),
+    total: page.total,
+    next_cursor: page.next_cursor,
+  };
 }
 
 /**
  * 특정 Task 조회
  */
-export async function getTask(dataDir: string, id: string): Promise<Task> {
-  await ensureTaskDirs(dataDir);
-  const file = path.join(dataDir, "tasks", `${id}.json`);
-  const txt = await fs.readFile(file, "utf-8");
-  return JSON.parse(txt);
+export async function getTask(store: RecordStore, id: string): Promise<Task> {
+  return parseStoredTask(await store.read("tasks", id), id);
 }
 
 /**
  * Task 삭제
  */
-export async function deleteTask(dataDir: string, id: string): Promise<void> {
-  const file = path.join(dataDir, "tasks", `${id}.json`);
-  await fs.unlink(file);
+export async function deleteTask(store: RecordStore, id: string): Promise<void> {
+  const task = parseStoredTask(await store.remove("tasks", id), id);
+
+  // 다른 Task의 depends_on/blocks에서 참조 제거
+  for (const relatedId of new Set([...(task.depends_on ?? []), ...(task.blocks ?? [])])) {
+    try {
+      await updateTask(store, relatedId, (related) => {
+        const depends_on = related.depends_on?.filter((x) => x !== id);
+        const blocks = related.blocks?.filter((x) => x !== id);
+        return {
+          depends_on: depends_on?.length ? depends_on : undefined,
+          blocks: blocks?.length ? blocks : undefined,
+        };
+      });
+    } catch {
+      // 이미 삭제된 Task는 무시
+    }
+  }
 }
 
+export type TaskFromReviewFilter = {
+  /** 이 평가 라벨 이상만 변환 (needs_confirmation 제외 기준) */
+  minSeverity?: Exclude<SeverityType, "needs_confirmation">;
+  /** 지정한 카테고리만 변환 */
+  categories?: string[];
+  /** 지정한 파일 glob에 매칭되는 finding만 변환 */
+  files?: string[];
+  /** needs_confirmation(확인요청) finding도 변환할지 여부 (기본값: false) */
+  includeNeedsConfirmation?: boolean;
+};
+
+export type SkippedFinding = {
+  index: number;
+  title: string;
+  reason: string;
+  /** 이미 존재하는 Task (중복으로 건너뛴 경우) */
+  existing_task_id?: string;
+};
+
+/**
+ * 필터에 걸리는 이유 반환 (통과하면 null)
+ */
+function getFilterReason(
+  finding: { severity: SeverityType; category?: string; file?: string },
+  filter: TaskFromReviewFilter
+): string | null {
+  if (finding.severity === "needs_confirmation") {
+    return filter.includeNeedsConfirmation ? null : "확인요청(needs_confirmation) finding";
+  }
+  if (filter.minSeverity && SEVERITY_RANK[finding.severity] > SEVERITY_RANK[filter.minSeverity]) {
+    return `평가 라벨 필터 (${filter.minSeverity} 이상)`;
+  }
+  if (filter.categories?.length && !filter.categories.includes(finding.category ?? "")) {
+    return `카테고리 필터 (${filter.categories.join(", ")})`;
+  }
+  if (filter.files?.length && !(finding.file && filter.files.some((pattern) => matchGlob(finding.file!, pattern)))) {
+    return `파일 필터 (${filter.files.join(", ")})`;
+  }
+  return null;
+}
+
+type ReviewForTasks = {
+  findings: Array<{
+    severity: SeverityType;
+    category?: string;
+    file?: string;
+    startLine?: number;
+    endLine?: number;
+    title_ko: string;
+    detail_ko: string;
+    suggestion_patch_diff?: string;
+    fingerprint?: string;
+  }>;
+};
+
 /**
  * 리뷰의 findings를 Task로 변환
+ * - 같은 리뷰/finding 인덱스 또는 같은 지문의 Task가 이미 있으면 건너뜀 (여러 번 실행해도 중복 생성 없음)
+ * - 필터(평가 라벨/카테고리/파일)에 해당하지 않는 finding은 건너뜀
  */
 export async function createTasksFromReview(
-  dataDir: string,
+  store: RecordStore,
   reviewId: string,
-  review: {
-    findings: Array<{
-      severity: SeverityType;
-      category?: string;
-      file?: string;
-      startLine?: number;
-      endLine?: number;
-      title_ko: string;
-      detail_ko: string;
-      suggestion_patch_diff?: string;
-    }>;
+  review: ReviewForTasks,
+  filter: TaskFromReviewFilter = {}
+): Promise<{ created: Task[]; skipped: SkippedFinding[] }> {
+  // 중복 확인 → 생성 사이에 다른 클라이언트가 같은 finding으로 Task를 만들지 않도록 직렬화
+  return withDataDirLock(store.dataDir, "task-from-review", () => createTasksFromReviewLocked(store, reviewId, review, filter));
+}
+
+async function createTasksFromReviewLocked(
+  store: RecordStore,
+  reviewId: string,
+  review: ReviewForTasks,
+  filter: TaskFromReviewFilter
+): Promise<{ created: Task[]; skipped: SkippedFinding[] }> {
+  const existing = await readTaskIndex(store);
+  const bySource = new Map<string, { id: string }>();
+  const byFingerprint = new Map<string, { id: string }>();
+  for (const task of existing) {
+    if (task.source_review_id !== undefined && task.source_finding_index !== undefined) {
+      bySource.set(`${task.source_review_id}#${task.source_finding_index}`, task);
+    }
+    if (task.source_fingerprint) {
+      byFingerprint.set(task.source_fingerprint, task);
+    }
   }
-): Promise<Task[]> {
-  const tasks: Task[] = [];
+
+  const created: Task[] = [];
+  const skipped: SkippedFinding[] = [];
 
   for (let i = 0; i < review.findings.length; i++) {
     const finding = review.findings[i];
-    const task = await saveTask(dataDir, {
+    const fingerprint = finding.fingerprint ?? computeFindingFingerprint(finding).fingerprint;
+
+    const sameSource = bySource.get(`${reviewId}#${i}`);
+    if (sameSource) {
+      skipped.push({ index: i, title: finding.title_ko, reason: "이 finding으로 만든 Task가 이미 있음", existing_task_id: sameSource.id });
+      continue;
+    }
+    const sameFingerprint = byFingerprint.get(fingerprint);
+    if (sameFingerprint) {
+      skipped.push({ index: i, title: finding.title_ko, reason: "같은 지문의 Task가 이미 있음", existing_task_id: sameFingerprint.id });
+      continue;
+    }
+    const filterReason = getFilterReason(finding, filter);
+    if (filterReason) {
+      skipped.push({ index: i, title: finding.title_ko, reason: filterReason });
+      continue;
+    }
+
+    const task = await saveTask(store, {
       status: "pending",
       source_review_id: reviewId,
       source_finding_index: i,
+      source_fingerprint: fingerprint,
       title: finding.title_ko,
       description: finding.detail_ko,
       file: finding.file,
@@ -187,24 +502,25 @@ export async function createTasksFromReview(
       severity: finding.severity,
       category: finding.category,
       suggestion_patch_diff: finding.suggestion_patch_diff,
-    });
-    tasks.push(task);
+    }, { tool: "task.from_review", note: `${reviewId} finding #${i + 1}` });
+    created.push(task);
+    byFingerprint.set(fingerprint, task);
   }
 
-  return tasks;
+  return { created, skipped };
 }
 
 /**
  * Task 통계
  */
-export async function getTaskStats(dataDir: string): Promise<{
+export async function getTaskStats(store: RecordStore): Promise<{
   total: number;
   pending: number;
   in_progress: number;
   completed: number;
   cancelled: number;
 }> {
-  const all = await listTasks(dataDir);
+  const all = await readTaskIndex(store);
   return {
     total: all.length,
     pending: all.filter((t) => t.status === "pending").length,
@@ -241,10 +557,19 @@ export function taskToMarkdown(task: Task): string {
     lines.push(`- **위치**: \`${loc}\``);
   }
   lines.push(`- **생성**: ${task.created_at}`);
-  lines.push(`- **수정**: ${task.updated_at}`);
+  lines.push(`- **수정**: ${task.updated_at}${task.revision ? ` (revision ${task.revision})` : ""}`);
+  if (task.baseline) {
+    lines.push(`- **실행 기준**: \`${task.baseline.head.slice(0, 7)}\`${task.baseline.dirty ? " (작업 트리 변경 있음)" : ""} @ ${task.baseline.captured_at}`);
+  }
   if (task.source_review_id) {
     lines.push(`- **원본 리뷰**: ${task.source_review_id} (finding #${(task.source_finding_index ?? 0) + 1})`);
   }
+  if (task.depends_on?.length) {
+    lines.push(`- **선행 Task**: ${task.depends_on.join(", ")}`);
+  }
+  if (task.blocks?.length) {
+    lines.push(`- **후행 Task**: ${task.blocks.join(", ")}`);
+  }
   lines.push("");
   lines.push("## 설명");
   lines.push("");
@@ -254,15 +579,34 @@ export function taskToMarkdown(task: Task): string {
   if (task.suggestion_patch_diff) {
     lines.push("## 제안 패치");
     lines.push("");
-    // diff 내용에서 코드 블록 마커 제거 및 정리
-    const cleanDiff = task.suggestion_patch_diff
-      .replace(/^```diff\s*/i, "")  // 시작 부분의 ```diff 제거
-      .replace(/```\s*$/g, "")      // 끝 부분의 ``` 제거
-      .trim();
+    const cleanDiff = stripCodeFence(task.suggestion_patch_diff);
     lines.push("```diff");
     lines.push(cleanDiff);
     lines.push("```");
     lines.push("");
+    if (task.patch_auto_applied_at) {
+      lines.push(`> 🤖 제안 패치 자동 적용됨 (${task.patch_auto_applied_at})`);
+      lines.push("");
+    }
+  }
+
+  if (task.history?.length) {
+    lines.push("## 상태 이력");
+    lines.push("");
+    for (const h of task.history) {
+      const change = h.from ? `${h.from} → ${h.to}` : `생성 (${h.to})`;
+      lines.push(`- \`${h.at}\` ${change} · ${h.tool}${h.note ? ` — ${h.note}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  if (task.verification_runs?.length) {
+    lines.push("## 검증 실행");
+    lines.push("");
+    for (const run of [...task.verification_runs].reverse()) {
+      lines.push(`- \`${run.finished_at}\` ${run.ok ? "✅ 통과" : "❌ 실패"} — ${summarizeVerificationRun(run)}`);
+    }
+    lines.push("");
   }
 
   if (task.completed_at) {
@@ -272,6 +616,9 @@ export function taskToMarkdown(task: Task): string {
     if (task.verification_note) {
       lines.push(`- **검증 노트**: ${task.verification_note}`);
     }
+    if (task.completed_without_changes) {
+      lines.push("- ⚠️ **대상 파일 변경 없이 완료됨**");
+    }
     lines.push("");
   }
 
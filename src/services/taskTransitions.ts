@@ -0,0 +1,39 @@
+import type { TaskStatus } from "./taskStorage.js";
+
+/**
+ * Task 상태 전이 규칙
+ *
+ * pending ──execute──▶ in_progress ──complete──▶ completed
+ *    │                   │    │                     │
+ *    │                   │    └──(보류)──▶ pending  │
+ *    └──────cancel───────┴──▶ cancelled             │
+ *                                 │                 │
+ *                                 └──reopen(사유 필수)──▶ pending
+ */
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  pending: ["in_progress", "cancelled"],
+  in_progress: ["pending", "completed", "cancelled"],
+  completed: ["pending"],
+  cancelled: ["pending"],
+};
+
+// 완료/취소된 Task를 다시 여는 전이 (사유 필수)
+const REOPEN_FROM: TaskStatus[] = ["completed", "cancelled"];
+
+export function isReopen(from: TaskStatus, to: TaskStatus): boolean {
+  return REOPEN_FROM.includes(from) && to === "pending";
+}
+
+/**
+ * 전이 불가 사유 (가능하면 null)
+ */
+export function getTransitionError(from: TaskStatus, to: TaskStatus, note?: string): string | null {
+  if (!TASK_TRANSITIONS[from].includes(to)) {
+    const allowed = TASK_TRANSITIONS[from];
+    return `'${from}' → '${to}' 전이는 허용되지 않습니다. 가능한 상태: ${allowed.join(", ")}`;
+  }
+  if (isReopen(from, to) && !note?.trim()) {
+    return `'${from}' Task를 다시 열려면 사유가 필요합니다. task.reopen에 reason을 지정하세요.`;
+  }
+  return null;
+}
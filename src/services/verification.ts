@@ -0,0 +1,227 @@
+import fs from "node:fs/promises";
+import { spawn } from "node:child_process";
+
+import { parseYamlList, type YamlListItem } from "./yamlList.js";
+
+/**
+ * 프로젝트 검증 명령 (.review/verify.yml)
+ *
+ * ```yaml
+ * commands:
+ *   - id: tsc
+ *     run: npx tsc --noEmit
+ *   - id: eslint
+ *     run: npx eslint {file}
+ *     timeout: 120
+ *   - id: vitest
+ *     run: npx vitest related --run {file}
+ *     required: false
+ * ```
+ *
+ * - `{file}`은 Task 대상 파일 경로로 치환 (Task에 파일이 없으면 해당 명령은 건너뜀)
+ * - timeout: 초 단위 (기본 300)
+ * - required: false면 실패해도 검증 실행 전체는 통과로 판단
+ */
+
+export type VerifyCommand = {
+  id: string;
+  run: string;
+  timeout_sec: number;
+  required: boolean;
+};
+
+export type VerificationResult = {
+  id: string;
+  /** 실제 실행한 명령 ({file} 치환 후) */
+  command: string;
+  /** 종료 코드 (시간 초과/실행 실패/건너뜀이면 null) */
+  exit_code: number | null;
+  ok: boolean;
+  required: boolean;
+  duration_ms: number;
+  /** stdout+stderr 끝부분 (ANSI 제거, 최대 MAX_OUTPUT_CHARS) */
+  output: string;
+  timed_out?: boolean;
+  skipped?: boolean;
+};
+
+export type VerificationRun = {
+  started_at: string;
+  finished_at: string;
+  /** 필수(required) 명령이 모두 통과했는지 */
+  ok: boolean;
+  results: VerificationResult[];
+};
+
+const DEFAULT_TIMEOUT_SEC = 300;
+// Task에 저장하는 출력 최대 글자 수 (실패 원인은 대개 끝부분에 있으므로 뒤에서 자름)
+const MAX_OUTPUT_CHARS = 4000;
+// 출력 수집 상한 (무한 출력 방지)
+const MAX_CAPTURE_CHARS = 1024 * 1024;
+
+function validateRawCommand(raw: YamlListItem, index: number): VerifyCommand | string {
+  const where = `검증 명령 #${index + 1}`;
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(id)) {
+    return `${where}: id가 없거나 형식이 잘못되었습니다 (영문 소문자/숫자/-/_): ${String(raw.id ?? "")}`;
+  }
+  const run = typeof raw.run === "string" ? raw.run.trim() : "";
+  if (!run) {
+    return `${where} (${id}): run이 필요합니다.`;
+  }
+  const timeout = raw.timeout === undefined ? DEFAULT_TIMEOUT_SEC : Number(raw.timeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    return `${where} (${id}): timeout은 양수(초)여야 합니다: ${String(raw.timeout)}`;
+  }
+  if (raw.required !== undefined && typeof raw.required !== "boolean") {
+    return `${where} (${id}): required는 true/false여야 합니다: ${String(raw.required)}`;
+  }
+  return { id, run, timeout_sec: timeout, required: raw.required !== false };
+}
+
+/**
+ * 검증 명령 로드 (파일이 없으면 빈 목록)
+ * - 검증에 실패한 항목과 중복 id는 건너뛰고 errors에 기록
+ */
+export async function loadVerifyCommands(configPath?: string): Promise<{ commands: VerifyCommand[]; errors: string[] }> {
+  if (!configPath) return { commands: [], errors: [] };
+  let text: string;
+  try {
+    text = await fs.readFile(configPath, "utf-8");
+  } catch {
+    return { commands: [], errors: [] };
+  }
+
+  const commands: VerifyCommand[] = [];
+  const errors: string[] = [];
+  parseYamlList(text, "commands").forEach((raw, i) => {
+    const result = validateRawCommand(raw, i);
+    if (typeof result === "string") errors.push(result);
+    else if (commands.some((c) => c.id === result.id)) errors.push(`검증 명령 #${i + 1}: 중복 id입니다: ${result.id}`);
+    else commands.push(result);
+  });
+  return { commands, errors };
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, "");
+}
+
+function tailOutput(text: string): string {
+  const clean = stripAnsi(text).trimEnd();
+  if (clean.length <= MAX_OUTPUT_CHARS) return clean;
+  return `...(앞부분 생략)\n${clean.slice(-MAX_OUTPUT_CHARS)}`;
+}
+
+/**
+ * 명령 실행 (셸 사용, 시간 초과 시 프로세스 그룹 전체 종료)
+ */
+function runShell(
+  repoPath: string,
+  command: string,
+  timeoutSec: number
+): Promise<{ exit_code: number | null; output: string; timed_out: boolean }> {
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    const collect = (chunk: Buffer) => {
+      if (output.length < MAX_CAPTURE_CHARS) output += chunk.toString("utf-8");
+    };
+
+    const child = spawn(command, {
+      cwd: repoPath,
+      shell: true,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: { ...process.env, CI: "1", FORCE_COLOR: "0" },
+    });
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, timeoutSec * 1000);
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ exit_code: null, output: `${output}\n${err.message}`, timed_out: false });
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ exit_code: timedOut ? null : code, output, timed_out: timedOut });
+    });
+  });
+}
+
+/**
+ * 검증 명령 순차 실행
+ * - 실패해도 나머지 명령은 계속 실행 (한 번에 모든 결과 확인)
+ */
+export async function runVerification(
+  repoPath: string,
+  commands: VerifyCommand[],
+  options: { file?: string } = {}
+): Promise<VerificationRun> {
+  const startedAt = new Date().toISOString();
+  const results: VerificationResult[] = [];
+
+  for (const cmd of commands) {
+    if (cmd.run.includes("{file}") && !options.file) {
+      results.push({
+        id: cmd.id,
+        command: cmd.run,
+        exit_code: null,
+        ok: true,
+        required: cmd.required,
+        duration_ms: 0,
+        output: "Task에 대상 파일이 없어 건너뜀",
+        skipped: true,
+      });
+      continue;
+    }
+
+    const command = options.file ? cmd.run.split("{file}").join(shellQuote(options.file)) : cmd.run;
+    const started = Date.now();
+    const { exit_code, output, timed_out } = await runShell(repoPath, command, cmd.timeout_sec);
+    results.push({
+      id: cmd.id,
+      command,
+      exit_code,
+      ok: exit_code === 0,
+      required: cmd.required,
+      duration_ms: Date.now() - started,
+      output: timed_out ? `${tailOutput(output)}\n(${cmd.timeout_sec}초 시간 초과로 중단)`.trimStart() : tailOutput(output),
+      ...(timed_out ? { timed_out: true } : {}),
+    });
+  }
+
+  return {
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    ok: results.every((r) => r.ok || !r.required),
+    results,
+  };
+}
+
+/**
+ * 검증 결과 한 줄 요약 (예: "✅ tsc · ❌ eslint(1) · ⏭️ vitest")
+ */
+export function summarizeVerificationRun(run: VerificationRun): string {
+  return run.results
+    .map((r) => {
+      if (r.skipped) return `⏭️ ${r.id}`;
+      if (r.ok) return `✅ ${r.id}`;
+      const reason = r.timed_out ? "timeout" : String(r.exit_code ?? "error");
+      return `${r.required ? "❌" : "⚠️"} ${r.id}(${reason})`;
+    })
+    .join(" · ");
+}
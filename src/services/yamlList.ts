@@ -0,0 +1,65 @@
+/**
+ * 설정 파일(.review/*.yml)용 최소 YAML 파서
+ * - 범용 YAML 파서가 아니라 최상위 키 아래의 "key: value" 목록만 지원
+ *
+ * ```yaml
+ * checks:
+ *   - id: security
+ *     title_ko: "보안"
+ * ```
+ */
+
+export type YamlListItem = Record<string, string | boolean>;
+
+/**
+ * YAML 스칼라 값 파싱 (따옴표 문자열, boolean, 주석 제거)
+ */
+function parseScalar(raw: string): string | boolean {
+  const value = raw.trim();
+  const quoted = value.match(/^(["'])(.*)\1\s*(?:#.*)?$/);
+  if (quoted) {
+    return quoted[1] === "\"" ? quoted[2].replace(/\\"/g, "\"") : quoted[2].replace(/''/g, "'");
+  }
+  const plain = value.replace(/\s+#.*$/, "").trim();
+  if (plain === "true") return true;
+  if (plain === "false") return false;
+  return plain;
+}
+
+/**
+ * `{sectionKey}:` 아래의 목록 항목 파싱
+ */
+export function parseYamlList(text: string, sectionKey: string): YamlListItem[] {
+  const items: YamlListItem[] = [];
+  let inSection = false;
+  let current: YamlListItem | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "  ");
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const content = line.trim();
+
+    if (indent === 0) {
+      inSection = content.replace(/\s+#.*$/, "") === `${sectionKey}:`;
+      current = null;
+      continue;
+    }
+    if (!inSection) continue;
+
+    let entry = content;
+    if (entry.startsWith("- ")) {
+      current = {};
+      items.push(current);
+      entry = entry.slice(2).trim();
+    }
+    if (!current || !entry) continue;
+
+    const sep = entry.indexOf(":");
+    if (sep < 0) continue;
+    current[entry.slice(0, sep).trim()] = parseScalar(entry.slice(sep + 1));
+  }
+
+  return items;
+}
@@ -0,0 +1,100 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+import { rebuildReviewIndex } from "../services/storage.js";
+import { rebuildTaskIndex } from "../services/taskStorage.js";
+import { formatDoctorReport, runStorageDoctor } from "../services/storageDoctor.js";
+import { migrateStorage } from "../services/storageMigration.js";
+import { type RecordStore, type StorageBackend } from "../services/recordStore.js";
+
+type EnvGetters = {
+  getStore: (backend?: StorageBackend) => RecordStore;
+};
+
+export function registerStorageTools(server: McpServer, env: EnvGetters) {
+  // 1) storage.reindex - 리뷰/Task 인덱스 재생성
+  server.tool(
+    "storage.reindex",
+    "리뷰/Task 인덱스(JSON: {DATA_DIR}/index, SQLite: DB의 인덱스 열)를 레코드에서 다시 만듭니다. 레코드 JSON을 직접 수정했거나 목록이 실제 레코드와 다를 때 사용합니다.",
+    {},
+    async () => {
+      const reviews = await rebuildReviewIndex(env.getStore());
+      const tasks = await rebuildTaskIndex(env.getStore());
+      const errors = [...reviews.errors, ...tasks.errors];
+
+      const lines: string[] = [];
+      lines.push(`${errors.length ? "⚠️" : "✅"} 인덱스 재생성 완료`);
+      lines.push("");
+      lines.push(`- 리뷰: ${reviews.count}개`);
+      lines.push(`- Task: ${tasks.count}개`);
+      if (errors.length) {
+        lines.push("");
+        lines.push(`## 읽지 못한 파일 (${errors.length})`);
+        lines.push("");
+        for (const error of errors) lines.push(`- ${error}`);
+      }
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 2) storage.doctor - 레코드 스키마 점검/마이그레이션/복구
+  server.tool(
+    "storage.doctor",
+    "DATA_DIR의 리뷰/Task 레코드를 점검합니다. 스키마 마이그레이션 대상, 검증 오류, 깨진 JSON을 보고하고 fix: true면 현재 스키마로 저장/복구합니다 (원본은 .bak, 복구 불가 파일은 quarantine/).",
+    {
+      fix: z.boolean().optional().default(false).describe("true면 마이그레이션/복구 결과를 저장하고 인덱스를 재생성 (기본: 보고만)"),
+    },
+    async ({ fix }) => {
+      try {
+        const report = await runStorageDoctor(env.getStore(), { fix });
+        return { content: [{ type: "text", text: formatDoctorReport(report) }] };
+      } catch (err: any) {
+        return { content: [{ type: "text", text: `❌ 저장소 점검 실패: ${err?.message ?? String(err)}` }] };
+      }
+    }
+  );
+
+  // 3) storage.migrate - 저장소 간 레코드 복사
+  server.tool(
+    "storage.migrate",
+    "현재 저장소(STORAGE_BACKEND)의 리뷰/Task를 다른 저장소(json 또는 sqlite)로 복사합니다. 원본은 그대로 두며, 복사 후 STORAGE_BACKEND를 바꾸고 서버를 다시 시작하면 됩니다.",
+    {
+      to: z.enum(["json", "sqlite"]).describe("복사할 대상 저장소 종류"),
+      overwrite: z.boolean().optional().default(false).describe("대상에 같은 id가 있으면 덮어쓸지 여부 (기본: 건너뜀)"),
+    },
+    async ({ to, overwrite }) => {
+      const lines: string[] = [];
+      try {
+        const source = env.getStore();
+        if (source.backend === to) {
+          return { content: [{ type: "text", text: `ℹ️ 이미 ${to} 저장소를 사용 중입니다 (${source.location}).` }] };
+        }
+        const result = await migrateStorage(source, env.getStore(to), { overwrite });
+
+        lines.push(`${result.failed.length ? "⚠️" : "✅"} 저장소 복사 완료: ${result.from.backend} → ${result.to.backend}`);
+        lines.push("");
+        lines.push(`- 원본: ${result.from.location}`);
+        lines.push(`- 대상: ${result.to.location}`);
+        lines.push(`- 복사: 리뷰 ${result.copied.reviews}개, Task ${result.copied.tasks}개`);
+        if (result.existing.reviews || result.existing.tasks) {
+          lines.push(`- 이미 있어 건너뜀: 리뷰 ${result.existing.reviews}개, Task ${result.existing.tasks}개 (덮어쓰려면 \`overwrite: true\`)`);
+        }
+        if (result.failed.length) {
+          lines.push("");
+          lines.push(`## 복사하지 못한 레코드 (${result.failed.length})`);
+          lines.push("");
+          for (const failure of result.failed) lines.push(`- ${failure}`);
+          if (source.backend === "json") {
+            lines.push("");
+            lines.push("ℹ️ `storage.doctor`로 복구한 뒤 다시 실행하세요.");
+          }
+        }
+        lines.push("");
+        lines.push(`➡️ 새 저장소를 쓰려면 \`STORAGE_BACKEND=${to}\` 설정 후 서버를 다시 시작하세요. 원본 데이터는 삭제하지 않았습니다.`);
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      } catch (err: any) {
+        return { content: [{ type: "text", text: `❌ 저장소 복사 실패: ${err?.message ?? String(err)}` }] };
+      }
+    }
+  );
+}
@@ -3,15 +3,26 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   saveTask,
   listTasks,
+  queryTasks,
   getTask,
   deleteTask,
+  updateTask,
   updateTaskStatus,
+  appendVerificationRun,
+  getLatestVerificationRun,
   createTasksFromReview,
   getTaskStats,
   taskToMarkdown,
   type Task,
 } from "../services/taskStorage.js";
+import { linkTasks, unlinkTasks, orderTaskQueue, getIncompleteDependencies } from "../services/taskDependencies.js";
+import { captureBaseline, diffSinceBaseline, isLineRangeTouched } from "../services/taskBaseline.js";
+import { loadVerifyCommands, runVerification, summarizeVerificationRun } from "../services/verification.js";
+import { findDiffFile, normalizeFindingPath } from "../services/findingValidator.js";
+import { getDiffFilePath } from "../services/diffParser.js";
 import { getReview } from "../services/storage.js";
+import type { RecordStore } from "../services/recordStore.js";
+import { stripCodeFence, normalizePatchDiff, checkPatch, applyPatch } from "../services/patch.js";
 import {
   TaskIdSchema,
   TaskCreateInputSchema,
@@ -19,20 +30,27 @@ import {
   TaskFromReviewInputSchema,
   TaskCompleteInputSchema,
   TaskUpdateStatusInputSchema,
+  TaskApplyPatchInputSchema,
+  TaskExecuteInputSchema,
+  TaskLinkInputSchema,
+  TaskReopenInputSchema,
+  TaskVerifyInputSchema,
 } from "./taskSchemas.js";
 
 type EnvGetters = {
-  getDataDir: () => string;
+  getProjectRoot: () => string;
+  getStore: () => RecordStore;
+  getVerifyConfigPath: () => string | undefined;
 };
 
 export function registerTaskTools(server: McpServer, env: EnvGetters) {
   // 1) task.from_review - 리뷰의 findings를 Task로 변환
   server.tool(
     "task.from_review",
-    "리뷰 결과의 findings를 Task로 자동 변환합니다.",
+    "리뷰 결과의 findings를 Task로 자동 변환합니다. 이미 Task가 있는 finding(같은 리뷰/인덱스 또는 같은 지문)은 건너뛰므로 여러 번 실행해도 안전합니다.",
     TaskFromReviewInputSchema.shape,
-    async ({ review_id }) => {
-      const review = await getReview(env.getDataDir(), review_id);
+    async ({ review_id, ...filter }) => {
+      const review = await getReview(env.getStore(), review_id);
       
       if (!review.findings || review.findings.length === 0) {
         return {
@@ -43,14 +61,29 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
         };
       }
 
-      const tasks = await createTasksFromReview(env.getDataDir(), review_id, review);
+      const { created, skipped } = await createTasksFromReview(env.getStore(), review_id, review, filter);
       
       const lines: string[] = [];
-      lines.push(`✅ ${tasks.length}개의 Task를 생성했습니다.`);
-      lines.push("");
-      for (const t of tasks) {
-        const loc = t.file ? ` @ ${t.file}` : "";
-        lines.push(`- [${t.severity}] ${t.id}: ${t.title}${loc}`);
+      lines.push(created.length
+        ? `✅ ${created.length}개의 Task를 생성했습니다. (건너뜀: ${skipped.length}개)`
+        : `ℹ️ 새로 생성한 Task가 없습니다. (건너뜀: ${skipped.length}개)`);
+      if (created.length) {
+        lines.push("");
+        lines.push(`## 생성 (${created.length})`);
+        lines.push("");
+        for (const t of created) {
+          const loc = t.file ? ` @ ${t.file}` : "";
+          lines.push(`- [${t.severity}] ${t.id}: ${t.title}${loc}`);
+        }
+      }
+      if (skipped.length) {
+        lines.push("");
+        lines.push(`## 건너뜀 (${skipped.length})`);
+        lines.push("");
+        for (const s of skipped) {
+          const existing = s.existing_task_id ? ` → ${s.existing_task_id}` : "";
+          lines.push(`- finding #${s.index + 1} ${s.title}: ${s.reason}${existing}`);
+        }
       }
       
       return {
@@ -68,11 +101,11 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     "새 Task를 수동으로 생성합니다.",
     TaskCreateInputSchema.shape,
     async (input) => {
-      const task = await saveTask(env.getDataDir(), {
+      const task = await saveTask(env.getStore(), {
         status: "pending",
         title: input.title,
         description: input.description,
-        severity: input.severity ?? "medium",
+        severity: input.severity,
         category: input.category,
         file: input.file,
         startLine: input.startLine,
@@ -92,27 +125,33 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
   // 3) task.list - Task 목록 조회
   server.tool(
     "task.list",
-    "Task 목록을 조회합니다. 상태별 필터링 가능.",
+    "Task 목록을 조회합니다. 상태/평가 라벨/분류/파일/원본 리뷰로 필터링하고 cursor로 다음 페이지를 조회합니다.",
     TaskListInputSchema.shape,
-    async ({ status, limit }) => {
-      const tasks = await listTasks(env.getDataDir(), { status, limit: limit ?? 20 });
-      const stats = await getTaskStats(env.getDataDir());
+    async ({ limit, cursor, ...filter }) => {
+      const { status } = filter;
+      const { tasks, total, next_cursor } = await queryTasks(env.getStore(), { ...filter, limit: limit ?? 20, cursor });
+      const stats = await getTaskStats(env.getStore());
+
+      const conditions = Object.entries(filter)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${value}`);
 
       if (tasks.length === 0) {
         return {
           content: [{
             type: "text",
-            text: status 
-              ? `ℹ️ 상태가 '${status}'인 Task가 없습니다.`
+            text: conditions.length
+              ? `ℹ️ 조건(${conditions.join(", ")})에 맞는 Task가 없습니다.`
               : "ℹ️ 저장된 Task가 없습니다."
           }]
         };
       }
 
       const lines: string[] = [];
-      lines.push(`# Task 목록 ${status ? `(${status})` : "(전체)"}`);
+      lines.push(`# Task 목록 ${conditions.length ? `(${conditions.join(", ")})` : "(전체)"}`);
       lines.push("");
       lines.push(`📊 통계: 전체=${stats.total} | ⏳pending=${stats.pending} | 🔄in_progress=${stats.in_progress} | ✅completed=${stats.completed} | ❌cancelled=${stats.cancelled}`);
+      lines.push(`🔎 조건에 맞는 Task ${total}개 중 ${tasks.length}개`);
       lines.push("");
       
       for (const t of tasks) {
@@ -125,6 +164,35 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
         const loc = t.file ? ` @ ${t.file}${t.startLine ? `:${t.startLine}` : ""}` : "";
         lines.push(`${statusIcon} [${t.severity}] **${t.id}**`);
         lines.push(`   ${t.title}${loc}`);
+        if (t.depends_on?.length) {
+          lines.push(`   ⛓️ 선행: ${t.depends_on.join(", ")}`);
+        }
+        if (t.completed_without_changes) {
+          lines.push("   ⚠️ 대상 파일 변경 없이 완료됨");
+        }
+      }
+
+      if (next_cursor) {
+        lines.push("");
+        lines.push(`➡️ 다음 페이지: \`cursor: "${next_cursor}"\``);
+      }
+
+      // 진행 중/대기 Task의 실행 순서 (의존성 기준 위상 정렬, 상태 외 필터가 없는 첫 페이지에만 표시)
+      const filteredByOther = conditions.length > (status ? 1 : 0);
+      if (!cursor && !filteredByOther && status !== "completed" && status !== "cancelled") {
+        const queue = orderTaskQueue([
+          ...(await listTasks(env.getStore(), { status: "in_progress" })),
+          ...(await listTasks(env.getStore(), { status: "pending" })),
+        ]);
+        if (queue.length) {
+          lines.push("");
+          lines.push("## 🧭 실행 순서 (의존성 기준)");
+          lines.push("");
+          queue.forEach(({ task: t, blocked_by }, i) => {
+            const blocked = blocked_by.length ? ` ⛔ 대기: ${blocked_by.join(", ")}` : "";
+            lines.push(`${i + 1}. [${t.severity}] ${t.id}: ${t.title}${blocked}`);
+          });
+        }
       }
 
       return {
@@ -142,7 +210,7 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     "특정 Task의 상세 정보를 조회합니다.",
     TaskIdSchema.shape,
     async ({ id }) => {
-      const task = await getTask(env.getDataDir(), id);
+      const task = await getTask(env.getStore(), id);
       return {
         content: [{
           type: "text",
@@ -155,10 +223,10 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
   // 5) task.execute - Task 실행 시작 (상태를 in_progress로 변경 + 가이드 제공)
   server.tool(
     "task.execute",
-    "Task 실행을 시작합니다. 상태를 in_progress로 변경하고 실행 가이드를 제공합니다.",
-    TaskIdSchema.shape,
-    async ({ id }) => {
-      const task = await getTask(env.getDataDir(), id);
+    "Task 실행을 시작합니다. 상태를 in_progress로 변경하고 실행 가이드를 제공합니다. 선행 Task(depends_on)가 끝나지 않았으면 거부합니다 (force=true면 경고 후 실행).",
+    TaskExecuteInputSchema.shape,
+    async ({ id, force, repoPath: inputRepoPath }) => {
+      const task = await getTask(env.getStore(), id);
       
       if (task.status === "completed") {
         return {
@@ -178,12 +246,72 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
         };
       }
 
-      // 상태를 in_progress로 변경
-      const updated = await updateTaskStatus(env.getDataDir(), id, "in_progress");
+      // 선행 Task 확인
+      const { incomplete, missing } = task.depends_on?.length
+        ? getIncompleteDependencies(task, await listTasks(env.getStore()))
+        : { incomplete: [], missing: [] };
+      const dependencyLines = incomplete.map((t) => `- ${t.status === "in_progress" ? "🔄" : "⏳"} ${t.id}: ${t.title}`);
+      if (incomplete.length && !force) {
+        return {
+          content: [{
+            type: "text",
+            text: [
+              `⛔ 선행 Task ${incomplete.length}개가 아직 끝나지 않았습니다: ${task.id}`,
+              "",
+              ...dependencyLines,
+              "",
+              "선행 Task를 먼저 완료하거나, 그래도 진행하려면 `force: true`로 다시 호출하세요.",
+            ].join("\n")
+          }]
+        };
+      }
+
+      // 상태를 in_progress로 변경 (위 확인 이후 다른 클라이언트가 수정했으면 거부)
+      let updated: Task;
+      try {
+        updated = await updateTaskStatus(env.getStore(), id, "in_progress", {
+          tool: "task.execute",
+          note: incomplete.length ? `force: 선행 Task ${incomplete.length}개 미완료` : undefined,
+        }, undefined, { expectedRevision: task.revision ?? 0 });
+      } catch (err: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 실행 시작 실패: ${err?.message ?? String(err)}`
+          }]
+        };
+      }
+
+      // 실행 기준(HEAD/작업 트리) 기록 - 이미 기록된 기준은 유지 (재실행/보류 후 재개)
+      let baselineNote = "";
+      if (!updated.baseline) {
+        try {
+          const baseline = await captureBaseline(inputRepoPath || env.getProjectRoot());
+          updated = await updateTask(env.getStore(), id, { baseline });
+        } catch (err: any) {
+          baselineNote = `ℹ️ git 상태를 기록하지 못했습니다 (task.verify에서 변경 비교 불가): ${err?.message ?? String(err)}`;
+        }
+      }
 
       const lines: string[] = [];
       lines.push(`🔄 Task 실행 시작: ${updated.id}`);
       lines.push("");
+      if (updated.baseline) {
+        lines.push(`📍 실행 기준: \`${updated.baseline.head.slice(0, 7)}\`${updated.baseline.dirty ? " + 커밋되지 않은 변경 (스냅샷 저장)" : ""}`);
+        lines.push("");
+      } else if (baselineNote) {
+        lines.push(baselineNote);
+        lines.push("");
+      }
+      if (incomplete.length) {
+        lines.push(`⚠️ 선행 Task ${incomplete.length}개가 끝나지 않은 상태로 실행합니다 (force).`);
+        lines.push(...dependencyLines);
+        lines.push("");
+      }
+      if (missing.length) {
+        lines.push(`ℹ️ 찾을 수 없는 선행 Task: ${missing.join(", ")}`);
+        lines.push("");
+      }
       lines.push("---");
       lines.push("");
       lines.push(`## ${updated.title}`);
@@ -207,11 +335,7 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
         lines.push("");
         lines.push("아래 diff를 참고하여 수정하세요:");
         lines.push("");
-        // diff 내용에서 코드 블록 마커 제거 및 정리
-        const cleanDiff = updated.suggestion_patch_diff
-          .replace(/^```diff\s*/i, "")  // 시작 부분의 ```diff 제거
-          .replace(/```\s*$/g, "")      // 끝 부분의 ``` 제거
-          .trim();
+        const cleanDiff = stripCodeFence(updated.suggestion_patch_diff);
         lines.push("```diff");
         lines.push(cleanDiff);
         lines.push("```");
@@ -235,13 +359,13 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     }
   );
 
-  // 6) task.verify - Task 검증 요청 (LLM에게 검증하도록 프롬프트 제공)
+  // 6) task.verify - Task 검증 요청 (실행 기준 이후 변경된 diff + 검증 프롬프트)
   server.tool(
     "task.verify",
-    "Task 완료를 검증합니다. 변경사항을 확인할 수 있도록 정보를 제공합니다.",
-    TaskIdSchema.shape,
-    async ({ id }) => {
-      const task = await getTask(env.getDataDir(), id);
+    "Task 완료를 검증합니다. 프로젝트 검증 명령(.review/verify.yml)을 실행해 결과를 Task에 기록하고, task.execute 시점 이후 대상 파일의 변경 diff와 finding 라인 범위 변경 여부를 함께 제공합니다.",
+    TaskVerifyInputSchema.shape,
+    async ({ id, maxDiffChars, runCommands }) => {
+      const task = await getTask(env.getStore(), id);
 
       if (task.status !== "in_progress") {
         return {
@@ -275,22 +399,97 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
       if (task.suggestion_patch_diff) {
         lines.push("### 제안되었던 패치");
         lines.push("");
-        // diff 내용에서 코드 블록 마커 제거 및 정리
-        const cleanDiff = task.suggestion_patch_diff
-          .replace(/^```diff\s*/i, "")  // 시작 부분의 ```diff 제거
-          .replace(/```\s*$/g, "")      // 끝 부분의 ``` 제거
-          .trim();
+        const cleanDiff = stripCodeFence(task.suggestion_patch_diff);
         lines.push("```diff");
         lines.push(cleanDiff);
         lines.push("```");
         lines.push("");
       }
 
+      lines.push("### 실행 이후 변경 내용");
+      lines.push("");
+      if (!task.baseline) {
+        lines.push("ℹ️ 실행 기준(git 상태)이 기록되지 않은 Task입니다. 변경 내용을 직접 확인하세요.");
+        lines.push("");
+      } else {
+        try {
+          const result = await diffSinceBaseline(task.baseline, task.file);
+          lines.push(`- 기준: \`${task.baseline.head.slice(0, 7)}\`${task.baseline.dirty ? " (실행 시점 작업 트리 스냅샷)" : ""} @ ${task.baseline.captured_at}`);
+          if (result.moved_head) {
+            lines.push(`- HEAD 이동: \`${task.baseline.head.slice(0, 7)}\` → \`${result.moved_head.slice(0, 7)}\` (커밋된 변경 포함)`);
+          }
+          for (const note of result.notes) lines.push(`- ⚠️ ${note}`);
+
+          const target = task.file ? findDiffFile(result.files, task.file, task.baseline.repo_path) : undefined;
+          if (task.file && !target) {
+            lines.push(`- ⚠️ 실행 이후 \`${task.file}\`에 변경이 없습니다.`);
+          } else if (task.file && target) {
+            lines.push(`- 변경: +${target.additions} / -${target.deletions}`);
+            if (task.startLine) {
+              const touched = isLineRangeTouched(target, task.startLine, task.endLine ?? task.startLine);
+              lines.push(touched
+                ? `- ✅ finding 라인 범위(${task.startLine}-${task.endLine ?? task.startLine})가 수정되었습니다.`
+                : `- ⚠️ finding 라인 범위(${task.startLine}-${task.endLine ?? task.startLine})는 수정되지 않았습니다. 다른 위치를 고쳤다면 그 이유를 확인하세요.`);
+            }
+          } else {
+            lines.push(`- 변경된 파일: ${result.files.map(getDiffFilePath).join(", ") || "(없음)"}`);
+          }
+          lines.push("");
+
+          const diffText = result.diff.trimEnd();
+          if (diffText) {
+            lines.push("```diff");
+            lines.push(diffText.length > maxDiffChars ? `${diffText.slice(0, maxDiffChars)}\n...(diff truncated)` : diffText);
+            lines.push("```");
+            lines.push("");
+          }
+        } catch (err: any) {
+          lines.push(`⚠️ 변경 내용을 계산하지 못했습니다: ${err?.message ?? String(err)}`);
+          lines.push("");
+        }
+      }
+
+      lines.push("### 검증 명령 실행");
+      lines.push("");
+      const { commands, errors } = await loadVerifyCommands(env.getVerifyConfigPath());
+      for (const error of errors) lines.push(`- ⚠️ 설정 오류: ${error}`);
+      if (!commands.length) {
+        lines.push("ℹ️ 설정된 검증 명령이 없습니다. `.review/verify.yml`에 명령을 추가하면 tsc/eslint/테스트 결과를 함께 확인할 수 있습니다.");
+        lines.push("");
+      } else if (!runCommands) {
+        lines.push(`ℹ️ 검증 명령 ${commands.length}개를 실행하지 않았습니다 (runCommands: false).`);
+        lines.push("");
+      } else {
+        const repoPath = task.baseline?.repo_path ?? env.getProjectRoot();
+        const file = task.file ? normalizeFindingPath(task.file, repoPath) : undefined;
+        const run = await runVerification(repoPath, commands, { file });
+        await appendVerificationRun(env.getStore(), task.id, run);
+
+        lines.push(`${run.ok ? "✅ 검증 명령 통과" : "❌ 검증 명령 실패"}: ${summarizeVerificationRun(run)}`);
+        lines.push("");
+        lines.push("| 명령 | 결과 | 종료 코드 | 시간 |");
+        lines.push("|------|------|-----------|------|");
+        for (const r of run.results) {
+          const outcome = r.skipped ? "⏭️ 건너뜀" : r.ok ? "✅ 통과" : r.required ? "❌ 실패" : "⚠️ 실패 (선택)";
+          const exitCode = r.timed_out ? "시간 초과" : r.exit_code ?? "-";
+          lines.push(`| \`${r.command}\` | ${outcome} | ${exitCode} | ${(r.duration_ms / 1000).toFixed(1)}s |`);
+        }
+        lines.push("");
+        for (const r of run.results.filter((r) => !r.ok && r.output)) {
+          lines.push(`#### ${r.id} 출력`);
+          lines.push("");
+          lines.push("```");
+          lines.push(r.output);
+          lines.push("```");
+          lines.push("");
+        }
+      }
+
       lines.push("---");
       lines.push("");
       lines.push("### 검증 체크리스트");
       lines.push("");
-      lines.push("다음을 확인해주세요:");
+      lines.push("위 변경 내용을 기준으로 다음을 확인해주세요:");
       lines.push("");
       lines.push("1. [ ] 요구사항이 제대로 반영되었는가?");
       lines.push("2. [ ] 새로운 버그가 발생하지 않았는가?");
@@ -309,13 +508,150 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     }
   );
 
+  // 6-1) task.apply_patch - 제안 패치 드라이런/적용
+  server.tool(
+    "task.apply_patch",
+    "Task의 suggestion_patch_diff를 정규화해 git apply --check로 드라이런하고, 헌크별 충돌을 보고합니다. apply=true면 통과 시 작업 트리에 적용합니다.",
+    TaskApplyPatchInputSchema.shape,
+    async ({ id, apply, repoPath: inputRepoPath }) => {
+      const task = await getTask(env.getStore(), id);
+
+      if (!task.suggestion_patch_diff?.trim()) {
+        return {
+          content: [{
+            type: "text",
+            text: `ℹ️ 이 Task에는 제안 패치가 없습니다. 직접 수정하세요.\n\nID: ${task.id}`
+          }]
+        };
+      }
+
+      if (task.patch_auto_applied_at) {
+        return {
+          content: [{
+            type: "text",
+            text: `ℹ️ 이 Task의 제안 패치는 이미 적용되었습니다.\n\nID: ${task.id}\n적용 시각: ${task.patch_auto_applied_at}`
+          }]
+        };
+      }
+
+      const targetRepoPath = inputRepoPath || env.getProjectRoot();
+      const patch = normalizePatchDiff(task.suggestion_patch_diff, task.file);
+      const result = await checkPatch(targetRepoPath, patch);
+
+      const lines: string[] = [];
+      lines.push(`${result.ok ? "✅" : "❌"} 제안 패치 드라이런: ${task.id}`);
+      lines.push("");
+      if (result.hunks.length) {
+        lines.push("| 파일 | 헌크 | 결과 |");
+        lines.push("|------|------|------|");
+        for (const h of result.hunks) {
+          const outcome = h.ok ? "✅ 적용 가능" : `❌ 충돌: ${h.error?.split("\n")[0] ?? ""}`;
+          lines.push(`| \`${h.file}\` | #${h.hunkIndex} \`${h.header}\` | ${outcome} |`);
+        }
+        lines.push("");
+      }
+      if (result.error) {
+        lines.push(`- 오류: ${result.error}`);
+        lines.push("");
+      }
+
+      if (!result.ok) {
+        lines.push("패치를 적용할 수 없습니다. 충돌한 헌크를 참고해 직접 수정하세요.");
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+
+      if (!apply) {
+        lines.push("드라이런만 수행했습니다. 적용하려면 `apply: true`로 다시 호출하세요.");
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+
+      await applyPatch(targetRepoPath, patch);
+      const updated = await updateTask(env.getStore(), id, {
+        patch_auto_applied_at: new Date().toISOString(),
+      });
+
+      lines.push(`🤖 패치를 작업 트리에 적용했습니다. (${updated.patch_auto_applied_at})`);
+      lines.push("변경 내용을 확인한 뒤 `task.verify`를 호출하세요.");
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 6-2) task.link - 의존성 추가
+  server.tool(
+    "task.link",
+    "Task 간 의존성을 추가합니다. depends_on: 이 Task보다 먼저 끝나야 하는 Task, blocks: 이 Task가 끝나야 시작할 수 있는 Task. 순환 의존성은 거부합니다.",
+    TaskLinkInputSchema.shape,
+    async ({ id, depends_on, blocks }) => {
+      if (!depends_on.length && !blocks.length) {
+        return { content: [{ type: "text", text: "⚠️ depends_on 또는 blocks를 지정하세요." }] };
+      }
+      try {
+        if (depends_on.length) {
+          await linkTasks(env.getStore(), id, depends_on);
+        }
+        for (const blockedId of blocks) {
+          await linkTasks(env.getStore(), blockedId, [id]);
+        }
+      } catch (err: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 의존성 추가 실패: ${err?.message ?? String(err)}`
+          }]
+        };
+      }
+
+      const updated = await getTask(env.getStore(), id);
+      return {
+        content: [{
+          type: "text",
+          text: [
+            `⛓️ 의존성 추가 완료: ${updated.id}`,
+            `- 선행 Task: ${updated.depends_on?.join(", ") || "(없음)"}`,
+            `- 후행 Task: ${updated.blocks?.join(", ") || "(없음)"}`,
+          ].join("\n")
+        }]
+      };
+    }
+  );
+
+  // 6-3) task.unlink - 의존성 제거
+  server.tool(
+    "task.unlink",
+    "Task 간 의존성을 제거합니다.",
+    TaskLinkInputSchema.shape,
+    async ({ id, depends_on, blocks }) => {
+      if (!depends_on.length && !blocks.length) {
+        return { content: [{ type: "text", text: "⚠️ depends_on 또는 blocks를 지정하세요." }] };
+      }
+      if (depends_on.length) {
+        await unlinkTasks(env.getStore(), id, depends_on);
+      }
+      for (const blockedId of blocks) {
+        await unlinkTasks(env.getStore(), blockedId, [id]);
+      }
+
+      const updated = await getTask(env.getStore(), id);
+      return {
+        content: [{
+          type: "text",
+          text: [
+            `✂️ 의존성 제거 완료: ${updated.id}`,
+            `- 선행 Task: ${updated.depends_on?.join(", ") || "(없음)"}`,
+            `- 후행 Task: ${updated.blocks?.join(", ") || "(없음)"}`,
+          ].join("\n")
+        }]
+      };
+    }
+  );
+
   // 7) task.complete - Task 완료 처리
   server.tool(
     "task.complete",
-    "Task를 완료 상태로 변경합니다.",
+    "Task를 완료 상태로 변경합니다. in_progress 상태의 Task만 완료할 수 있습니다. requirePassing=true면 마지막 검증 명령 실행이 통과해야 완료합니다.",
     TaskCompleteInputSchema.shape,
-    async ({ id, verification_note }) => {
-      const task = await getTask(env.getDataDir(), id);
+    async ({ id, verification_note, requirePassing, expected_revision }) => {
+      const task = await getTask(env.getStore(), id);
 
       if (task.status === "completed") {
         return {
@@ -326,12 +662,81 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
         };
       }
 
-      const updated = await updateTaskStatus(env.getDataDir(), id, "completed", {
-        completed_at: new Date().toISOString(),
-        verification_note,
-      });
+      if (task.status !== "in_progress") {
+        return {
+          content: [{
+            type: "text",
+            text: `⚠️ 'in_progress' 상태의 Task만 완료할 수 있습니다. 먼저 \`task.execute\`를 호출하세요.\n현재 상태: ${task.status}`
+          }]
+        };
+      }
+
+      const lastRun = getLatestVerificationRun(task);
+      if (requirePassing) {
+        const { commands } = await loadVerifyCommands(env.getVerifyConfigPath());
+        if (commands.length && !lastRun) {
+          const reopened = Boolean(task.verification_runs?.length);
+          return {
+            content: [{
+              type: "text",
+              text: `⛔ ${reopened ? "다시 연 이후 " : ""}검증 명령 실행 기록이 없습니다. 먼저 \`task.verify\`를 호출하세요.\n\nID: ${task.id}`
+            }]
+          };
+        }
+        if (lastRun && !lastRun.ok) {
+          const failed = lastRun.results.filter((r) => !r.ok && r.required).map((r) => r.id);
+          return {
+            content: [{
+              type: "text",
+              text: [
+                `⛔ 마지막 검증 명령 실행이 실패했습니다: ${failed.join(", ")}`,
+                "",
+                `- 실행 시각: ${lastRun.finished_at}`,
+                `- 결과: ${summarizeVerificationRun(lastRun)}`,
+                "",
+                "수정 후 `task.verify`를 다시 호출하세요. (검증 실패와 무관하게 완료하려면 requirePassing 없이 호출)",
+              ].join("\n")
+            }]
+          };
+        }
+      }
+
+      // 실행 기준 이후 대상 파일 변경이 없으면 표시 (완료는 막지 않음)
+      let withoutChanges = false;
+      if (task.baseline && task.file) {
+        try {
+          const result = await diffSinceBaseline(task.baseline, task.file);
+          withoutChanges = !findDiffFile(result.files, task.file, task.baseline.repo_path);
+        } catch {
+          // git 상태를 확인할 수 없으면 표시하지 않음
+        }
+      }
 
-      const stats = await getTaskStats(env.getDataDir());
+      // 위 검사(검증 결과/변경 여부) 이후 다른 클라이언트가 수정했으면 거부
+      let updated: Task;
+      try {
+        updated = await updateTaskStatus(
+          env.getStore(),
+          id,
+          "completed",
+          { tool: "task.complete", note: withoutChanges ? "대상 파일 변경 없음" : undefined },
+          {
+            completed_at: new Date().toISOString(),
+            verification_note,
+            ...(withoutChanges ? { completed_without_changes: true } : {}),
+          },
+          { expectedRevision: expected_revision ?? task.revision ?? 0 }
+        );
+      } catch (err: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 완료 처리 실패: ${err?.message ?? String(err)}`
+          }]
+        };
+      }
+
+      const stats = await getTaskStats(env.getStore());
 
       return {
         content: [{
@@ -342,6 +747,8 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
             `- 제목: ${updated.title}`,
             `- 완료 시각: ${updated.completed_at}`,
             verification_note ? `- 검증 노트: ${verification_note}` : "",
+            lastRun ? `- 마지막 검증 명령: ${summarizeVerificationRun(lastRun)} (${lastRun.finished_at})` : "",
+            withoutChanges ? `- ⚠️ 실행 이후 \`${updated.file}\`에 변경이 없습니다. 수정 없이 완료 처리되었는지 확인하세요.` : "",
             "",
             `📊 남은 Task: pending=${stats.pending}, in_progress=${stats.in_progress}`
           ].filter(Boolean).join("\n")
@@ -356,8 +763,8 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     "Task를 삭제합니다.",
     TaskIdSchema.shape,
     async ({ id }) => {
-      const task = await getTask(env.getDataDir(), id);
-      await deleteTask(env.getDataDir(), id);
+      const task = await getTask(env.getStore(), id);
+      await deleteTask(env.getStore(), id);
 
       return {
         content: [{
@@ -371,10 +778,38 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
   // 9) task.update_status - Task 상태 변경 (유틸리티)
   server.tool(
     "task.update_status",
-    "Task 상태를 변경합니다.",
+    "Task 상태를 변경합니다. 허용된 전이만 가능합니다 (pending → in_progress/cancelled, in_progress → pending/cancelled, completed/cancelled → pending은 reason 필수). 완료 처리는 검증 기록을 확인하는 task.complete를 사용하세요.",
     TaskUpdateStatusInputSchema.shape,
-    async ({ id, status }) => {
-      const updated = await updateTaskStatus(env.getDataDir(), id, status);
+    async ({ id, status, reason, expected_revision }) => {
+      // 완료는 task.complete에서만 (requirePassing 검증 우회 방지)
+      if (status === "completed") {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 상태 변경 실패: completed로는 변경할 수 없습니다. task.complete로 완료 처리하세요 (id: ${id}).`
+          }]
+        };
+      }
+
+      const task = await getTask(env.getStore(), id);
+      let updated: Task;
+      try {
+        updated = await updateTaskStatus(
+          env.getStore(),
+          id,
+          status,
+          { tool: "task.update_status", note: reason },
+          undefined,
+          { expectedRevision: expected_revision }
+        );
+      } catch (err: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 상태 변경 실패: ${err?.message ?? String(err)}`
+          }]
+        };
+      }
 
       const statusIcon = {
         pending: "⏳",
@@ -386,7 +821,50 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
       return {
         content: [{
           type: "text",
-          text: `${statusIcon} Task 상태 변경: ${updated.id}\n- 새 상태: ${status}`
+          text: `${statusIcon} Task 상태 변경: ${updated.id}\n- ${task.status} → ${status}${reason ? `\n- 사유: ${reason}` : ""}`
+        }]
+      };
+    }
+  );
+
+  // 9-1) task.reopen - 완료/취소된 Task 다시 열기
+  server.tool(
+    "task.reopen",
+    "완료(completed) 또는 취소(cancelled)된 Task를 다시 pending으로 엽니다. 사유(reason)가 필요하며 상태 이력에 기록됩니다.",
+    TaskReopenInputSchema.shape,
+    async ({ id, reason, expected_revision }) => {
+      const task = await getTask(env.getStore(), id);
+      if (task.status !== "completed" && task.status !== "cancelled") {
+        return {
+          content: [{
+            type: "text",
+            text: `⚠️ 완료/취소된 Task만 다시 열 수 있습니다.\n현재 상태: ${task.status}`
+          }]
+        };
+      }
+
+      let updated: Task;
+      try {
+        updated = await updateTaskStatus(
+          env.getStore(),
+          id,
+          "pending",
+          { tool: "task.reopen", note: reason },
+          undefined,
+          { expectedRevision: expected_revision }
+        );
+      } catch (err: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 다시 열기 실패: ${err?.message ?? String(err)}`
+          }]
+        };
+      }
+      return {
+        content: [{
+          type: "text",
+          text: `↩️ Task 다시 열기: ${updated.id}\n- ${task.status} → pending\n- 사유: ${reason}`
         }]
       };
     }
@@ -398,7 +876,7 @@ export function registerTaskTools(server: McpServer, env: EnvGetters) {
     "Task 전체 통계를 조회합니다.",
     {},
     async () => {
-      const stats = await getTaskStats(env.getDataDir());
+      const stats = await getTaskStats(env.getStore());
 
       return {
         content: [{
@@ -1,40 +1,117 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
-import { getGitDiff } from "../services/gitDiff.js";
-import { readRules, getDefaultRulesPath } from "../services/rules.js";
-import { saveReview, listReviews, getReview, toMarkdown, saveMarkdownFile } from "../services/storage.js";
+import { getGitDiff, formatDiffLabel, resolveDiffTarget } from "../services/gitDiff.js";
+import { getDiffFilePath, toDiffJson } from "../services/diffParser.js";
+import { chunkDiffFiles, describeChunk } from "../services/diffChunker.js";
+import {
+  filterDiffFiles,
+  readProjectIgnore,
+  joinDiffFiles,
+  describeExcludedFiles,
+  type DiffFilterOptions,
+} from "../services/diffFilter.js";
+import {
+  readRules,
+  readSelectedRules,
+  readMergedRules,
+  getDefaultRulesPath,
+  getRulesFingerprint,
+  formatRulesFingerprint,
+  describeRulesChange,
+  type RuleSection,
+} from "../services/rules.js";
+import { loadChecklist, formatChecksForPrompt, reconcileCheckResults, getDefaultChecksPath } from "../services/checks.js";
+import { saveReview, listReviews, queryReviews, getReview, getLatestReview, toMarkdown, saveMarkdownFile, saveReviewFile, type Finding, type ReviewCommitRefs } from "../services/storage.js";
+import type { DiffFile } from "../services/diffParser.js";
+import type { RecordStore } from "../services/recordStore.js";
+import { validateFindingLocations, formatLocationReport } from "../services/findingValidator.js";
+import { attachFingerprints } from "../services/findingFingerprint.js";
+import { compareReviews, formatComparisonMarkdown } from "../services/reviewCompare.js";
+import { checkReviewConsistency, buildConsistencyFixPrompt } from "../services/reviewConsistency.js";
 import { loadPromptFromTemplate, generatePrompt } from "../services/promptTemplate.js";
-import { ReviewIdSchema, ReviewSaveInputSchema } from "./schemas.js";
+import { searchFindings, formatSearchResult } from "../services/reviewSearch.js";
+import { computeReviewStats, formatReviewStats } from "../services/reviewStats.js";
+import { toSarif } from "../services/sarif.js";
+import { buildPrComments, resolveCommit, resolveDiffRefs, type PrCommentExport } from "../services/prComments.js";
+import { DiffModeEnum, ReviewIdSchema, ReviewListInputSchema, ReviewSaveToolInputSchema, ReviewSearchInputSchema, ReviewStatsInputSchema } from "./schemas.js";
 
 type EnvGetters = {
   getProjectRoot: () => string;
   getDataDir: () => string;
+  getStore: () => RecordStore;
   getCustomRulesPath: () => string | undefined;
+  getIgnoreFilePath: () => string | undefined;
+  getChecksPath: () => string | undefined;
+  getVerifyConfigPath: () => string | undefined;
 };
 
+/**
+ * diff 수집 + include/exclude/ignore 필터 적용
+ * - 제외된 파일이 있으면 남은 파일로 raw diff를 다시 구성
+ */
+async function collectFilteredDiff(
+  env: EnvGetters,
+  params: Parameters<typeof getGitDiff>[0] & Omit<DiffFilterOptions, "projectIgnore">
+) {
+  const { include, exclude, useDefaultIgnores, ...diffParams } = params;
+  const result = await getGitDiff(diffParams);
+  const projectIgnore = await readProjectIgnore(env.getIgnoreFilePath());
+  const filtered = filterDiffFiles(result.files, { include, exclude, useDefaultIgnores, projectIgnore });
+
+  return {
+    ...result,
+    diff: filtered.excluded.length ? joinDiffFiles(filtered.files) : result.diff,
+    files: filtered.files,
+    excluded: filtered.excluded,
+  };
+}
+
 export function registerTools(server: McpServer, env: EnvGetters) {
   // 1) collect_diff
   server.tool(
     "review.collect_diff",
-    "git diff(base...head)를 수집해서 반환합니다. base가 'main'이면 자동으로 'origin/main'으로 변환됩니다.",
+    "git diff를 수집해서 반환합니다. mode로 base...head(기본값)/base..head/작업 트리/staged/단일 커밋을 선택합니다. base가 'main'이면 자동으로 'origin/main'으로 변환됩니다. format='json'이면 파일/헌크/라인 맵으로 파싱된 모델을 반환합니다.",
     {
       repoPath: z.string().optional().describe("로컬 git 저장소 경로 (미지정시 PROJECT_ROOT 사용)"),
       base: z.string().optional().default("origin/main").describe("기준 브랜치 (기본값: origin/main, 'main' 입력 시 자동으로 origin/main으로 변환)"),
-      head: z.string().optional().default("HEAD"),
-      contextLines: z.number().int().min(0).max(20).optional()
+      head: z.string().optional().default("HEAD").describe("대상 ref (commit 모드에서는 리뷰할 커밋)"),
+      mode: DiffModeEnum.optional().default("three_dot").describe("three_dot: base...head, two_dot: base..head, working_tree: 커밋 안 된 변경, staged: staged 변경, commit: head 커밋 하나"),
+      offline: z.boolean().optional().default(false).describe("true면 git fetch를 실행하지 않음"),
+      contextLines: z.number().int().min(0).max(20).optional(),
+      include: z.array(z.string()).optional().describe("포함할 경로 glob (지정시 매칭되는 파일만 리뷰, 기본 무시 목록보다 우선)"),
+      exclude: z.array(z.string()).optional().describe("제외할 경로 glob"),
+      useDefaultIgnores: z.boolean().optional().default(true).describe("lockfile/스냅샷/생성 파일 등 기본 무시 목록 사용 여부"),
+      format: z.enum(["text", "json"]).optional().default("text").describe("출력 형식 (text: raw diff, json: 파싱된 diff 모델)")
     },
-    async ({ repoPath: inputRepoPath, base, head, contextLines }) => {
+    async ({ repoPath: inputRepoPath, base, head, mode, offline, contextLines, include, exclude, useDefaultIgnores, format }) => {
       const targetRepoPath = inputRepoPath || env.getProjectRoot();
-      const { diff } = await getGitDiff({ repoPath: targetRepoPath, base, head, contextLines });
+      const result = await collectFilteredDiff(env, {
+        repoPath: targetRepoPath, base, head, mode, offline, contextLines, include, exclude, useDefaultIgnores
+      });
+      const { diff, files, label, notes, excluded } = result;
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ base: result.base, head: result.head, mode, notes, excluded, files: toDiffJson(files) }, null, 2)
+          }]
+        };
+      }
+
       const trimmed = diff.trimEnd();
-      const sizeInfo = `chars=${trimmed.length}`;
+      const sizeInfo = `chars=${trimmed.length}, files=${files.length}, excluded=${excluded.length}`;
+      const noteText = [
+        ...notes.map((n) => `> ${n}`),
+        describeExcludedFiles(excluded),
+      ].filter(Boolean).map((t) => `\n${t}`).join("");
       return {
         content: [{
           type: "text",
           text: trimmed.length
-            ? `# Diff (${base}...${head})\n(${sizeInfo})\n\n${trimmed}`
-            : `# Diff (${base}...${head})\n(변경 없음)`
+            ? `# Diff (${label})\n(${sizeInfo})${noteText}\n\n${trimmed}`
+            : `# Diff (${label})\n(변경 없음)${noteText}`
         }]
       };
     }
@@ -43,24 +120,49 @@ export function registerTools(server: McpServer, env: EnvGetters) {
   // 3) make_prompt
   server.tool(
     "review.make_prompt",
-    "규칙 + diff를 합쳐, 모델에게 그대로 넘길 '리뷰 프롬프트 패키지(한국어)'를 만들어줍니다. base가 'main'이면 자동으로 'origin/main'으로 변환됩니다.",
+    "규칙 + diff를 합쳐, 모델에게 그대로 넘길 '리뷰 프롬프트 패키지(한국어)'를 만들어줍니다. mode로 diff 범위를 선택합니다. base가 'main'이면 자동으로 'origin/main'으로 변환됩니다.",
     {
       repoPath: z.string().optional().describe("로컬 git 저장소 경로 (미지정시 PROJECT_ROOT 사용)"),
       base: z.string().optional().default("origin/main").describe("기준 브랜치 (기본값: origin/main, 'main' 입력 시 자동으로 origin/main으로 변환)"),
-      head: z.string().optional().default("HEAD"),
+      head: z.string().optional().default("HEAD").describe("대상 ref (commit 모드에서는 리뷰할 커밋)"),
+      mode: DiffModeEnum.optional().default("three_dot").describe("three_dot: base...head, two_dot: base..head, working_tree: 커밋 안 된 변경, staged: staged 변경, commit: head 커밋 하나"),
+      offline: z.boolean().optional().default(false).describe("true면 git fetch를 실행하지 않음"),
       contextLines: z.number().int().min(0).max(20).optional(),
-      maxDiffChars: z.number().int().min(1000).max(200000).optional().default(120000)
+      include: z.array(z.string()).optional().describe("포함할 경로 glob (지정시 매칭되는 파일만 리뷰, 기본 무시 목록보다 우선)"),
+      exclude: z.array(z.string()).optional().describe("제외할 경로 glob"),
+      useDefaultIgnores: z.boolean().optional().default(true).describe("lockfile/스냅샷/생성 파일 등 기본 무시 목록 사용 여부"),
+      maxDiffChars: z.number().int().min(1000).max(200000).optional().default(120000).describe("diff 최대 글자 수 (split 모드에서는 파트별 예산)"),
+      chunkMode: z.enum(["truncate", "split"]).optional().default("truncate").describe("truncate: 예산 초과분 잘라냄, split: 파일 경계 기준으로 여러 파트로 분할"),
+      part: z.number().int().min(1).optional().describe("split 모드에서 특정 파트만 반환 (미지정시 전체 파트 반환)"),
+      ruleSections: z.array(z.string()).optional().describe("포함할 규칙 섹션 키 (예: [\"coupling\"], 미지정시 전체 규칙). 목록은 rules://sections 참고")
     },
-    async ({ repoPath: inputRepoPath, base, head, contextLines, maxDiffChars }) => {
+    async ({ repoPath: inputRepoPath, base, head, mode, offline, contextLines, include, exclude, useDefaultIgnores, maxDiffChars, chunkMode, part, ruleSections }) => {
       const targetRepoPath = inputRepoPath || env.getProjectRoot();
-      // 기본 규칙(내장) + 커스텀 규칙(선택적) 병합
-      const rules = await readRules(env.getCustomRulesPath());
-      const { diff } = await getGitDiff({ repoPath: targetRepoPath, base, head, contextLines });
-
-      const safeDiff = diff.length > maxDiffChars ? diff.slice(0, maxDiffChars) + "\n\n...(diff truncated)" : diff;
+      // 기본 규칙(내장) + 커스텀 규칙(선택적) 병합 - ruleSections 지정시 해당 섹션만
+      let rules: string;
+      if (ruleSections?.length) {
+        const selected = await readSelectedRules(env.getCustomRulesPath(), ruleSections);
+        if (selected.unknown.length) {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ 알 수 없는 규칙 섹션: ${selected.unknown.join(", ")}\nrules://sections 리소스에서 사용 가능한 섹션 키를 확인하세요.`
+            }]
+          };
+        }
+        rules = selected.rules;
+      } else {
+        rules = await readRules(env.getCustomRulesPath());
+      }
+      const { checks } = await loadChecklist(env.getChecksPath());
+      const result = await collectFilteredDiff(env, {
+        repoPath: targetRepoPath, base, head, mode, offline, contextLines, include, exclude, useDefaultIgnores
+      });
+      const { diff, files } = result;
+      const excludedNote = describeExcludedFiles(result.excluded);
 
       const schemaHint = `{
-  "target": { "base": "${base}", "head": "${head}" },
+  "target": { "base": "${result.base}", "head": "${result.head}", "mode": "${mode}" },
   "summary_ko": "변경 사항에 대한 간략한 요약(한국어)",
   "risk": "low | medium | high",
   "criteria_feedback": {
@@ -83,20 +185,63 @@ export function registerTools(server: McpServer, env: EnvGetters) {
       "suggestion_patch_diff": "diff 텍스트(선택, needs_confirmation인 경우 제공하지 않음)"
     }
   ],
+  "check_results": [
+    { "id": "필수 체크리스트의 id", "result": "pass | fail | na", "note_ko": "판단 근거(선택)" }
+  ],
 }`;
 
       // 템플릿 파일 로드 및 변수 치환
       const template = await loadPromptFromTemplate("review/index.md");
-      const prompt = generatePrompt(template, {
+      const buildPrompt = (diffText: string, diffScope: string) => generatePrompt(template, {
         schemaHint,
         rules: rules?.trim() || "(rules file is empty)",
-        diff: safeDiff.trimEnd()
+        checks: formatChecksForPrompt(checks),
+        diffScope: [diffScope, excludedNote].filter(Boolean).join("\n\n"),
+        diff: diffText.trimEnd()
       });
 
+      if (chunkMode === "split" && diff.length > maxDiffChars) {
+        const chunks = chunkDiffFiles(files, maxDiffChars);
+        if (part !== undefined && part > chunks.length) {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ 파트 ${part}는 없습니다. 전체 파트 수: ${chunks.length}`
+            }]
+          };
+        }
+
+        const selected = part !== undefined ? [chunks[part - 1]] : chunks;
+        return {
+          content: selected.map((chunk) => ({
+            type: "text" as const,
+            text: buildPrompt(chunk.diff, describeChunk(chunk, chunks))
+          }))
+        };
+      }
+
+      if (diff.length <= maxDiffChars) {
+        return { content: [{ type: "text", text: buildPrompt(diff, "") }] };
+      }
+
+      // truncate 모드: 잘려서 모델이 보지 못하는 파일 목록을 함께 알려줌
+      const omitted: string[] = [];
+      let offset = 0;
+      for (const file of files) {
+        if (offset + file.raw.length > maxDiffChars) {
+          omitted.push(getDiffFilePath(file));
+        }
+        offset += file.raw.length + 1;
+      }
+      const truncatedNote = omitted.length
+        ? `> ⚠️ diff가 ${maxDiffChars}자를 넘어 잘렸습니다. 아래 파일은 일부 또는 전체가 누락되었습니다 (chunkMode="split"으로 전체 리뷰 가능):\n${omitted.map((f) => `> - \`${f}\``).join("\n")}`
+        : "";
+      const safeDiff = diff.slice(0, maxDiffChars) + "\n\n...(diff truncated)";
+
       return {
         content: [{
           type: "text",
-          text: prompt
+          text: buildPrompt(safeDiff, truncatedNote)
         }]
       };
     }
@@ -105,14 +250,120 @@ export function registerTools(server: McpServer, env: EnvGetters) {
   // 4) save
   server.tool(
     "review.save",
-    "리뷰 결과(JSON)를 저장하고 review_id를 반환합니다.",
-    ReviewSaveInputSchema.shape,
-    async (input) => {
-      const saved = await saveReview(env.getDataDir(), input);
+    "리뷰 결과(JSON)를 저장하고 review_id를 반환합니다. 저장 전 target(base/head/mode) 기준 diff를 다시 수집해 finding 위치(file/라인)를 검증하고, criteria_feedback ↔ findings 일관성을 검사합니다.",
+    ReviewSaveToolInputSchema.shape,
+    async ({ repoPath: inputRepoPath, locationCheck, consistencyCheck, ...input }) => {
+      const targetRepoPath = inputRepoPath || env.getProjectRoot();
+
+      const consistencyIssues = consistencyCheck === "off" ? [] : checkReviewConsistency(input);
+      const consistencyReport = consistencyIssues.length ? buildConsistencyFixPrompt(consistencyIssues) : "";
+      if (consistencyCheck === "strict" && consistencyReport) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ 저장 거부 (consistencyCheck=strict)\n\n${consistencyReport}`
+          }]
+        };
+      }
+
+      let findings: Finding[] = input.findings;
+      let locationReport = "";
+      let diffFiles: DiffFile[] = [];
+
+      if (locationCheck !== "off") {
+        try {
+          // 방금 수집한 diff와 같은 기준으로 비교해야 하므로 fetch 없이(offline) 재수집
+          const diff = await getGitDiff({
+            repoPath: targetRepoPath,
+            base: input.target.base,
+            head: input.target.head,
+            mode: input.target.mode,
+            offline: true,
+          });
+          diffFiles = diff.files;
+          const result = validateFindingLocations(findings, diff.files, targetRepoPath);
+          findings = result.findings;
+          if (result.issues.length) {
+            locationReport = formatLocationReport(result.issues, findings);
+          }
+        } catch (err: any) {
+          if (locationCheck === "strict") {
+            return {
+              content: [{
+                type: "text",
+                text: `❌ 저장 거부: 위치 검증을 위한 diff 수집에 실패했습니다.\n${err?.message ?? String(err)}`
+              }]
+            };
+          }
+          findings = findings.map((f) => ({ ...f, location_status: "unchecked" as const }));
+          locationReport = `⚠️ diff 수집 실패로 위치 검증을 건너뛰었습니다: ${err?.message ?? String(err)}`;
+        }
+
+        if (locationCheck === "strict" && locationReport) {
+          return {
+            content: [{
+              type: "text",
+              text: `❌ 저장 거부 (locationCheck=strict)\n\n${locationReport}\n\nfindings의 file/startLine/endLine을 diff 기준으로 수정한 뒤 다시 저장하세요.`
+            }]
+          };
+        }
+      }
+
+      // 리뷰 간 비교/중복 Task 방지용 지문 (위치 검증에서 수집한 diff의 주변 코드 사용)
+      findings = attachFingerprints(findings, diffFiles, targetRepoPath);
+
+      // 필수 체크리스트 결과 대조 (누락/알 수 없는 체크 보고)
+      const { checks } = await loadChecklist(env.getChecksPath());
+      const checkReport = reconcileCheckResults(checks, input.check_results ?? []);
+
+      // 리뷰 당시 커밋 기록 (review.export_pr_comments가 이후 ref 이동과 관계없이 같은 diff를 쓰도록)
+      // locationCheck와 관계없이 getGitDiff와 같은 규칙으로 실제 ref를 구함 (main → origin/main, commit → head^)
+      const resolvedTarget = resolveDiffTarget(input.target);
+      let refs: ReviewCommitRefs | undefined;
+      let refsNote = "";
+      if (resolvedTarget.mode !== "working_tree" && resolvedTarget.mode !== "staged") {
+        try {
+          refs = await resolveDiffRefs(targetRepoPath, resolvedTarget);
+        } catch (err: any) {
+          refsNote = `ℹ️ 리뷰 당시 커밋을 기록하지 못했습니다 (review.export_pr_comments는 현재 ref 기준으로 변환): ${err?.message ?? String(err)}`;
+        }
+      }
+
+      const saved = await saveReview(env.getStore(), {
+        ...input,
+        target: refs ? { ...input.target, refs } : input.target,
+        findings,
+        check_results: checkReport.results.length ? checkReport.results : undefined,
+        rules: await getRulesFingerprint(env.getCustomRulesPath()),
+      });
+      const lines = [
+        `✅ 저장 완료: ${saved.id}`,
+        `- 대상: ${formatDiffLabel(saved.target.mode, saved.target.base, saved.target.head)}`,
+        `- findings: ${saved.findings.length}`,
+        `- 규칙: ${formatRulesFingerprint(saved.rules)}`,
+      ];
+      if (refsNote) {
+        lines.push("", refsNote);
+      }
+      if (locationReport) {
+        lines.push("", locationReport);
+      }
+      if (consistencyReport) {
+        lines.push("", consistencyReport);
+      }
+      if (checkReport.skipped.length) {
+        lines.push("", `⚠️ 누락된 필수 체크 ${checkReport.skipped.length}건 (check_results에 결과를 추가하세요)`);
+        for (const c of checkReport.skipped) {
+          lines.push(`- \`${c.id}\` (${c.severity}): ${c.title_ko}`);
+        }
+      }
+      if (checkReport.unknown.length) {
+        lines.push("", `ℹ️ 체크리스트에 없는 check_results id: ${checkReport.unknown.join(", ")}`);
+      }
       return {
         content: [{
           type: "text",
-          text: `✅ 저장 완료: ${saved.id}\n- 대상: ${saved.target.base}...${saved.target.head}\n- findings: ${saved.findings.length}`
+          text: lines.join("\n")
         }]
       };
     }
@@ -121,33 +372,142 @@ export function registerTools(server: McpServer, env: EnvGetters) {
   // 5) list
   server.tool(
     "review.list",
-    "저장된 리뷰 목록을 조회합니다.",
-    {
-      limit: z.number().int().min(1).max(100).optional().default(20)
-    },
-    async ({ limit }) => {
-      const list = await listReviews(env.getDataDir(), limit);
+    "저장된 리뷰 목록을 조회합니다. finding의 평가 라벨/카테고리/파일로 필터링하고 cursor로 다음 페이지를 조회합니다.",
+    ReviewListInputSchema.shape,
+    async ({ limit, cursor, ...filter }) => {
+      const { reviews: list, total, next_cursor } = await queryReviews(env.getStore(), { ...filter, limit, cursor });
       if (!list.length) {
         return { content: [{ type: "text", text: "저장된 리뷰가 없습니다." }] };
       }
       const lines: string[] = [];
-      lines.push(`총 ${list.length}개 (최신순)`);
+      lines.push(`총 ${total}개 중 ${list.length}개 (최신순)`);
       lines.push("");
       for (const r of list) {
-        lines.push(`- ${r.id} | ${r.created_at} | ${r.target.base}...${r.target.head} | findings=${r.findings.length}${r.risk ? ` | risk=${r.risk}` : ""}`);
+        lines.push(`- ${r.id} | ${r.created_at} | ${formatDiffLabel(r.target.mode, r.target.base, r.target.head)} | findings=${r.findings.length}${r.risk ? ` | risk=${r.risk}` : ""}`);
+      }
+      if (next_cursor) {
+        lines.push("");
+        lines.push(`➡️ 다음 페이지: \`cursor: "${next_cursor}"\``);
       }
       return { content: [{ type: "text", text: lines.join("\n") }] };
     }
   );
 
+  // 5-1) search - 모든 리뷰의 findings 검색
+  server.tool(
+    "review.search",
+    "저장된 모든 리뷰의 findings를 검색합니다. 파일 경로/glob, 카테고리, 평가 라벨, 작성 기간, 제목/설명 검색어(띄어쓰기/조사 차이 무시)로 찾고 리뷰 id와 finding 번호를 보여줍니다.",
+    ReviewSearchInputSchema.shape,
+    async ({ query, ...rest }) => {
+      try {
+        const search = { ...rest, text: query };
+        const result = await searchFindings(env.getStore(), search);
+        return { content: [{ type: "text", text: formatSearchResult(search, result) }] };
+      } catch (err: any) {
+        return { content: [{ type: "text", text: `❌ 검색 실패: ${err?.message ?? String(err)}` }] };
+      }
+    }
+  );
+
+  // 5-2) stats - 리뷰 이력 기반 품질 통계
+  server.tool(
+    "review.stats",
+    "기간 안에 저장된 리뷰의 품질 통계를 마크다운 리포트로 보여줍니다. 기준별 평가 라벨 분포, 리뷰별 평가 라벨 수, finding이 많은 파일/디렉터리, 여러 리뷰에서 반복된 지적을 텍스트 차트로 정리합니다.",
+    ReviewStatsInputSchema.shape,
+    async (query) => {
+      try {
+        const stats = await computeReviewStats(env.getStore(), query);
+        return { content: [{ type: "text", text: formatReviewStats(stats) }] };
+      } catch (err: any) {
+        return { content: [{ type: "text", text: `❌ 통계 계산 실패: ${err?.message ?? String(err)}` }] };
+      }
+    }
+  );
+
   // 6) get
   server.tool(
     "review.get",
-    "특정 review_id의 상세 JSON을 조회합니다.",
+    "특정 review_id의 상세 JSON을 조회합니다. 리뷰 당시 규칙(rules)이 현재 규칙과 다르면 함께 알려줍니다.",
     ReviewIdSchema.shape,
     async ({ id }) => {
-      const r = await getReview(env.getDataDir(), id);
-      return { content: [{ type: "text", text: JSON.stringify(r, null, 2) }] };
+      const r = await getReview(env.getStore(), id);
+      const current = await getRulesFingerprint(env.getCustomRulesPath());
+      const change = describeRulesChange(r.rules, current);
+      const content = [{ type: "text" as const, text: JSON.stringify(r, null, 2) }];
+      if (change) {
+        content.push({
+          type: "text" as const,
+          text: `⚠️ 현재 규칙과 다른 규칙으로 작성된 리뷰입니다: ${change}\n- 리뷰 당시: ${formatRulesFingerprint(r.rules)}\n- 현재: ${formatRulesFingerprint(current)}`
+        });
+      }
+      return { content };
+    }
+  );
+
+  // 6-1) outdated - 현재 규칙과 다른 규칙으로 작성된 리뷰
+  server.tool(
+    "review.outdated",
+    "현재 적용 중인 규칙(기본 + 커스텀)과 다른 버전/내용의 규칙으로 작성된 리뷰 목록을 보여줍니다.",
+    {
+      limit: z.number().int().min(1).max(1000).optional().default(100).describe("최신순으로 검사할 리뷰 수")
+    },
+    async ({ limit }) => {
+      const current = await getRulesFingerprint(env.getCustomRulesPath());
+      const list = await listReviews(env.getStore(), limit);
+      const outdated = list
+        .map((r) => ({ review: r, change: describeRulesChange(r.rules, current) }))
+        .filter((item): item is { review: typeof item.review; change: string } => item.change !== null);
+
+      const lines: string[] = [];
+      lines.push("# 이전 규칙으로 작성된 리뷰");
+      lines.push("");
+      lines.push(`- 현재 규칙: ${formatRulesFingerprint(current)}`);
+      lines.push(`- 검사한 리뷰: ${list.length}개 (최신순)`);
+      lines.push("");
+      if (!outdated.length) {
+        lines.push("✅ 모든 리뷰가 현재 규칙으로 작성되었습니다.");
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+
+      lines.push(`⚠️ 이전 규칙으로 작성된 리뷰 ${outdated.length}개`);
+      lines.push("");
+      lines.push("| 리뷰 | 생성 시각 | 리뷰 당시 규칙 | 변경 내용 |");
+      lines.push("|------|-----------|----------------|-----------|");
+      for (const { review, change } of outdated) {
+        lines.push(`| ${review.id} | ${review.created_at} | ${formatRulesFingerprint(review.rules)} | ${change} |`);
+      }
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 6-2) compare - 두 리뷰의 findings 비교
+  server.tool(
+    "review.compare",
+    "두 리뷰의 findings를 지문(파일/카테고리/제목/주변 코드)으로 매칭해 해결됨/새로 발견/남아 있음으로 분류합니다. 같은 브랜치를 수정 후 다시 리뷰했을 때 진행 상황 확인용입니다.",
+    {
+      fromId: z.string().min(1).describe("이전 리뷰 id"),
+      toId: z.string().optional().describe("이후 리뷰 id (미지정시 최신 리뷰)"),
+      format: z.enum(["markdown", "json"]).optional().default("markdown").describe("출력 형식")
+    },
+    async ({ fromId, toId, format }) => {
+      const before = await getReview(env.getStore(), fromId);
+      const after = toId ? await getReview(env.getStore(), toId) : await getLatestReview(env.getStore());
+      if (!after || after.id === before.id) {
+        return {
+          content: [{
+            type: "text",
+            text: "⚠️ 비교할 이후 리뷰가 없습니다. toId를 지정하세요."
+          }]
+        };
+      }
+
+      const comparison = compareReviews(before, after);
+      return {
+        content: [{
+          type: "text",
+          text: format === "json" ? JSON.stringify(comparison, null, 2) : formatComparisonMarkdown(comparison)
+        }]
+      };
     }
   );
 
@@ -157,9 +517,9 @@ export function registerTools(server: McpServer, env: EnvGetters) {
     "특정 review_id를 마크다운으로 변환하고 파일로 저장합니다.",
     ReviewIdSchema.shape,
     async ({ id }) => {
-      const r = await getReview(env.getDataDir(), id);
+      const r = await getReview(env.getStore(), id);
       const markdown = toMarkdown(r);
-      const filePath = await saveMarkdownFile(env.getDataDir(), id, markdown);
+      const filePath = await saveMarkdownFile(env.getStore(), id, markdown);
       return { 
         content: [{ 
           type: "text", 
@@ -169,6 +529,192 @@ export function registerTools(server: McpServer, env: EnvGetters) {
     }
   );
 
+  // 7-1) export_sarif - SARIF 2.1.0 (IDE/코드 스캐닝 뷰어용)
+  server.tool(
+    "review.export_sarif",
+    "특정 review_id를 SARIF 2.1.0 로그로 변환해 마크다운과 같은 reviews/ 폴더에 {id}.sarif로 저장합니다. 카테고리는 규칙(reportingDescriptor), 평가 라벨은 level, 위치는 physicalLocation, 제안 패치는 fixes로 변환됩니다.",
+    ReviewIdSchema.shape,
+    async ({ id }) => {
+      const r = await getReview(env.getStore(), id);
+      const { log, fixCount, skippedPatches } = toSarif(r, { projectRoot: env.getProjectRoot() });
+      const filePath = await saveReviewFile(env.getStore(), `${id}.sarif`, `${JSON.stringify(log, null, 2)}\n`);
+      const run = log.runs[0];
+
+      const lines: string[] = [];
+      lines.push(`✅ SARIF 파일 저장 완료: ${filePath}`);
+      lines.push("");
+      lines.push(`- 결과(results): ${run.results.length}개`);
+      lines.push(`- 규칙(rules): ${run.tool.driver.rules.map((rule) => rule.id).join(", ") || "(없음)"}`);
+      lines.push(`- 수정 제안(fixes): ${fixCount}개`);
+      if (skippedPatches.length) {
+        lines.push("");
+        lines.push(`⚠️ fixes로 변환하지 못한 제안 패치 ${skippedPatches.length}개 (결과에는 포함됨)`);
+        for (const p of skippedPatches) {
+          lines.push(`- finding #${p.index} ${p.title}: ${p.reason}`);
+        }
+      }
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 7-2) export_pr_comments - GitHub/GitLab 리뷰 코멘트 payload (네트워크 요청 없음)
+  server.tool(
+    "review.export_pr_comments",
+    "특정 review_id를 GitHub 리뷰 생성 API / GitLab MR 토론(discussions) API 요청 본문(JSON)으로 변환해 reviews/ 폴더에 저장합니다. 라인은 리뷰 대상 diff(base...head) 기준으로 매핑하고, 제안 패치는 suggestion 블록으로 바꿉니다. 네트워크 요청은 하지 않습니다 (게시는 gh api, curl 등으로 직접).",
+    {
+      id: z.string().min(1).describe("리뷰 id"),
+      platform: z.enum(["github", "gitlab", "all"]).optional().default("all").describe("만들 payload 종류"),
+      repoPath: z.string().optional().describe("git 저장소 경로 (미지정시 프로젝트 루트)")
+    },
+    async ({ id, platform, repoPath }) => {
+      const r = await getReview(env.getStore(), id);
+      const targetRepoPath = repoPath || env.getProjectRoot();
+
+      let exported: PrCommentExport;
+      const warnings: string[] = [];
+      try {
+        // offline: git fetch 없이 로컬 ref만 사용
+        // 리뷰 당시 커밋이 기록되어 있으면 그 커밋으로 diff를 만들어 리뷰한 라인과 맞춤
+        const recorded = r.target.refs;
+        const diff = await getGitDiff({
+          repoPath: targetRepoPath,
+          base: recorded ? recorded.start_sha : r.target.base,
+          head: recorded ? recorded.head_sha : r.target.head,
+          mode: r.target.mode,
+          offline: true,
+        });
+        const refs = recorded ?? await resolveDiffRefs(targetRepoPath, { base: diff.base, head: diff.head, mode: diff.mode });
+        exported = buildPrComments(r, diff.files, refs, targetRepoPath);
+
+        if (!recorded) {
+          warnings.push("리뷰 당시 커밋이 기록되지 않은 리뷰라 현재 ref 기준으로 변환했습니다. 리뷰 이후 커밋이 추가되었다면 라인이 어긋날 수 있습니다.");
+        } else {
+          let currentHead: string | undefined;
+          try {
+            currentHead = await resolveCommit(targetRepoPath, r.target.head);
+          } catch {
+            // ref가 삭제되었거나 이름이 바뀜 → 기록된 커밋 기준 그대로
+          }
+          if (currentHead && currentHead !== recorded.head_sha) {
+            warnings.push(
+              `리뷰 이후 ${r.target.head}가 ${recorded.head_sha.slice(0, 12)} → ${currentHead.slice(0, 12)}로 이동했습니다. 리뷰 당시 커밋 기준으로 내보냈으므로, PR head가 다르면 코멘트가 outdated로 표시될 수 있습니다.`
+            );
+          }
+        }
+      } catch (err: any) {
+        return { content: [{ type: "text", text: `❌ PR 코멘트 변환 실패: ${err?.message ?? String(err)}` }] };
+      }
+
+      const written: string[] = [];
+      if (platform !== "gitlab") {
+        written.push(await saveReviewFile(env.getStore(), `${id}.github-review.json`, `${JSON.stringify(exported.github, null, 2)}\n`));
+      }
+      if (platform !== "github") {
+        written.push(await saveReviewFile(env.getStore(), `${id}.gitlab-discussions.json`, `${JSON.stringify(exported.gitlab, null, 2)}\n`));
+      }
+
+      const lines: string[] = [];
+      lines.push("✅ PR 코멘트 payload 저장 완료 (네트워크 요청 없음)");
+      lines.push("");
+      for (const file of written) lines.push(`- ${file}`);
+      lines.push("");
+      lines.push(`- 대상: ${formatDiffLabel(r.target.mode, r.target.base, r.target.head)} (head ${exported.refs.head_sha.slice(0, 12)})`);
+      lines.push(`- 라인 코멘트: ${exported.inline}개 (suggestion ${exported.suggestions}개)`);
+      lines.push(`- 요약 본문에 포함: ${exported.general.length}개`);
+      for (const w of warnings) {
+        lines.push("");
+        lines.push(`⚠️ ${w}`);
+      }
+      if (exported.general.length) {
+        lines.push("");
+        lines.push("ℹ️ diff의 라인에 달 수 없어 요약 본문에 넣은 finding");
+        for (const g of exported.general) {
+          lines.push(`- finding #${g.index} ${g.title}: ${g.reason}`);
+        }
+      }
+      if (exported.patchNotes.length) {
+        lines.push("");
+        lines.push("⚠️ suggestion으로 바꾸지 못해 diff 블록으로 첨부한 제안 패치");
+        for (const p of exported.patchNotes) {
+          lines.push(`- finding #${p.index} ${p.title}: ${p.reason}`);
+        }
+      }
+      lines.push("");
+      lines.push("➡️ 게시 예시: `gh api repos/{owner}/{repo}/pulls/{number}/reviews --input <github-review.json>` (GitLab은 배열의 각 항목을 `POST /projects/:id/merge_requests/:iid/discussions`로 전송)");
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 7-3) checks - 적용 중인 체크리스트 확인
+  server.tool(
+    "review.checks",
+    "기본 체크리스트(templates/checks.yml)와 프로젝트 오버라이드(.review/checks.yml)를 병합한 필수 체크 목록과 검증 오류를 보여줍니다.",
+    {},
+    async () => {
+      const { checks, errors } = await loadChecklist(env.getChecksPath());
+      const lines: string[] = [];
+      lines.push(`# 필수 체크리스트 (${checks.length}개)`);
+      lines.push("");
+      lines.push("| id | 제목 | 중요도 | 출처 |");
+      lines.push("|----|------|--------|------|");
+      for (const c of checks) {
+        lines.push(`| \`${c.id}\` | ${c.title_ko} | ${c.severity} | ${c.source === "default" ? "기본" : "프로젝트"} |`);
+      }
+      if (errors.length) {
+        lines.push("");
+        lines.push(`## ⚠️ 검증 오류 ${errors.length}건 (해당 항목은 제외됨)`);
+        lines.push("");
+        for (const e of errors) lines.push(`- ${e}`);
+      }
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
+  // 7-4) rules - 병합된 규칙과 섹션별 출처 확인
+  server.tool(
+    "review.rules",
+    "기본 규칙과 프로젝트 커스텀 규칙(.review/rules.md)을 헤딩 단위로 병합한 결과를 섹션별 출처(기본/대체/추가/제거)와 함께 보여줍니다.",
+    {
+      includeContent: z.boolean().optional().default(false).describe("true면 병합된 규칙 전문도 함께 반환")
+    },
+    async ({ includeContent }) => {
+      const { sections, removed } = await readMergedRules(env.getCustomRulesPath());
+      const sourceLabels: Record<RuleSection["source"], string> = {
+        default: "기본",
+        override: "🔁 커스텀으로 대체",
+        custom: "➕ 커스텀 추가",
+      };
+
+      const lines: string[] = [];
+      lines.push(`# 적용 중인 규칙 (${sections.length}개 섹션)`);
+      lines.push("");
+      lines.push(`- 기본 규칙: ${getDefaultRulesPath()}`);
+      lines.push(`- 커스텀 규칙: ${env.getCustomRulesPath() || "(없음)"}`);
+      lines.push(`- 버전/해시: ${formatRulesFingerprint(await getRulesFingerprint(env.getCustomRulesPath()))}`);
+      lines.push("");
+      lines.push("| key | 섹션 | 출처 | chars |");
+      lines.push("|-----|------|------|-------|");
+      for (const sec of sections) {
+        lines.push(`| \`${sec.key}\` | ${sec.title} | ${sourceLabels[sec.source]} | ${sec.content.length} |`);
+      }
+      for (const sec of removed) {
+        lines.push(`| \`${sec.key}\` | ~~${sec.title}~~ | ➖ 커스텀에서 제거 | - |`);
+      }
+
+      if (includeContent) {
+        lines.push("");
+        lines.push("---");
+        for (const sec of sections) {
+          lines.push("");
+          lines.push(`<!-- section: ${sec.key} (${sec.source}) -->`);
+          lines.push(sec.content);
+        }
+      }
+
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+
   // 8) debug.env (helper)
   server.tool(
     "review.debug.env",
@@ -176,14 +722,20 @@ export function registerTools(server: McpServer, env: EnvGetters) {
     {},
     async () => {
       const customRulesPath = env.getCustomRulesPath();
+      const store = env.getStore();
       return {
         content: [{
           type: "text",
           text: [
             `projectRoot:     ${env.getProjectRoot()}`,
             `dataDir:         ${env.getDataDir()}`,
+            `storage:         ${store.backend} (${store.location})`,
             `defaultRulesPath: ${getDefaultRulesPath()}`,
-            `customRulesPath: ${customRulesPath || "(없음 - 기본 규칙만 사용)"}`
+            `customRulesPath: ${customRulesPath || "(없음 - 기본 규칙만 사용)"}`,
+            `ignoreFilePath:  ${env.getIgnoreFilePath() || "(없음 - 기본 무시 목록만 사용)"}`,
+            `defaultChecksPath: ${getDefaultChecksPath()}`,
+            `checksPath:      ${env.getChecksPath() || "(없음 - 기본 체크리스트만 사용)"}`,
+            `verifyConfigPath: ${env.getVerifyConfigPath() || "(없음 - 검증 명령 실행 안 함)"}`
           ].join("\n")
         }]
       };
@@ -24,6 +24,15 @@ export const SeverityEnum = z.enum([
   "needs_confirmation"   // 확인요청 (확신이 없는 경우)
 ]);
 
+// diff 수집 모드 (gitDiff.ts의 DiffMode와 동일)
+export const DiffModeEnum = z.enum([
+  "three_dot",     // base...head (merge-base 기준, 기본값)
+  "two_dot",       // base..head
+  "working_tree",  // HEAD 대비 커밋되지 않은 변경
+  "staged",        // HEAD 대비 staged 변경
+  "commit"         // head 커밋 하나
+]);
+
 export const FindingSchema = z.object({
   severity: SeverityEnum,
   category: CategoryEnum.optional(), // 6가지 기준 중 하나
@@ -50,17 +59,61 @@ export const CriteriaFeedbackSchema = z.object({
   intent_clarity: CriteriaFeedbackItemSchema.optional()
 }).optional();
 
+// 체크리스트(templates/checks.yml) 항목별 결과
+export const CheckResultSchema = z.object({
+  id: z.string().min(1),
+  result: z.enum(["pass", "fail", "na"]),
+  note_ko: z.string().optional()
+});
+
 export const ReviewSaveInputSchema = z.object({
   target: z.object({
     base: z.string().min(1),
-    head: z.string().min(1)
+    head: z.string().min(1),
+    mode: DiffModeEnum.optional()  // 미지정시 three_dot
   }),
   summary_ko: z.string().min(1),
   risk: z.enum(["low", "medium", "high"]).optional(),
   criteria_feedback: CriteriaFeedbackSchema,  // 5가지 기준별 피드백
-  findings: z.array(FindingSchema).default([])
+  findings: z.array(FindingSchema).default([]),
+  check_results: z.array(CheckResultSchema).optional()  // 필수 체크리스트 결과
+});
+
+// review.save 도구 입력 (저장 레코드 + 저장 옵션)
+export const ReviewSaveToolInputSchema = ReviewSaveInputSchema.extend({
+  repoPath: z.string().optional().describe("위치 검증용 git 저장소 경로 (미지정시 PROJECT_ROOT 사용)"),
+  locationCheck: z.enum(["warn", "strict", "off"]).optional().default("warn")
+    .describe("finding 위치 검증 (warn: 경고 후 저장, strict: 문제가 있으면 저장 거부, off: 검증 안 함)"),
+  consistencyCheck: z.enum(["warn", "strict", "off"]).optional().default("warn")
+    .describe("criteria_feedback ↔ findings 일관성 검사 (warn: 경고 후 저장, strict: 위반 시 저장 거부, off: 검사 안 함)")
 });
 
 export const ReviewIdSchema = z.object({
   id: z.string().min(1)
 });
+
+export const ReviewListInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  cursor: z.string().optional().describe("이전 결과의 next_cursor (다음 페이지)"),
+  severity: SeverityEnum.optional().describe("이 평가 라벨의 finding이 있는 리뷰만"),
+  category: CategoryEnum.optional().describe("이 카테고리의 finding이 있는 리뷰만"),
+  file: z.string().optional().describe("이 파일(경로 또는 glob)에 finding이 있는 리뷰만"),
+});
+
+export const ReviewSearchInputSchema = z.object({
+  query: z.string().optional().describe("finding 제목/설명(title_ko, detail_ko) 검색어. 띄어쓰기/대소문자/조사 차이는 무시하고, 여러 단어면 모두 포함된 finding"),
+  file: z.string().optional().describe("파일 경로 또는 glob (예: src/components/**)"),
+  category: CategoryEnum.optional().describe("이 카테고리의 finding만"),
+  severity: SeverityEnum.optional().describe("이 평가 라벨의 finding만"),
+  since: z.string().optional().describe("이 날짜/시각 이후 작성된 리뷰만 (예: 2025-01-01)"),
+  until: z.string().optional().describe("이 날짜/시각까지 작성된 리뷰만 (날짜만 쓰면 그 날 포함)"),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  cursor: z.string().optional().describe("이전 결과의 next_cursor (다음 페이지)"),
+});
+
+export const ReviewStatsInputSchema = z.object({
+  since: z.string().optional().describe("이 날짜/시각 이후 작성된 리뷰만 (예: 2025-01-01, 미지정시 처음부터)"),
+  until: z.string().optional().describe("이 날짜/시각까지 작성된 리뷰만 (날짜만 쓰면 그 날 포함, 미지정시 현재까지)"),
+  days: z.number().int().min(1).max(3650).optional().describe("최근 N일 (since 대신 사용)"),
+  top: z.number().int().min(1).max(50).optional().default(10).describe("파일/디렉터리/반복 지적 상위 개수"),
+});
@@ -20,6 +20,10 @@ export const TaskIdSchema = z.object({
   id: z.string().min(1).describe("Task ID"),
 });
 
+// 낙관적 동시성 제어 (task.get으로 본 revision과 다르면 변경 거부)
+const ExpectedRevisionSchema = z.number().int().min(0).optional()
+  .describe("task.get에서 확인한 revision (지정하면 그 사이 다른 클라이언트가 수정한 경우 거부)");
+
 export const TaskCreateInputSchema = z.object({
   title: z.string().min(1).describe("Task 제목"),
   description: z.string().min(1).describe("Task 설명"),
@@ -33,19 +37,62 @@ export const TaskCreateInputSchema = z.object({
 
 export const TaskListInputSchema = z.object({
   status: TaskStatusSchema.optional().describe("필터링할 상태"),
+  severity: TaskSeveritySchema.optional().describe("필터링할 평가 라벨"),
+  category: z.string().optional().describe("필터링할 분류"),
+  file: z.string().optional().describe("대상 파일 경로 또는 glob (예: \"src/pages/**\")"),
+  source_review_id: z.string().optional().describe("원본 리뷰 ID"),
   limit: z.number().int().min(1).max(100).optional().default(20).describe("최대 개수"),
+  cursor: z.string().optional().describe("이전 결과의 next_cursor (다음 페이지)"),
 });
 
 export const TaskFromReviewInputSchema = z.object({
   review_id: z.string().min(1).describe("리뷰 ID"),
+  minSeverity: z.enum(["suggestion", "recommendation", "improvement", "required"]).optional().describe("이 평가 라벨 이상만 변환 (suggestion < recommendation < improvement < required)"),
+  categories: z.array(z.string()).optional().describe("변환할 카테고리 (예: [\"coupling\", \"readability\"])"),
+  files: z.array(z.string()).optional().describe("변환할 파일 glob (예: [\"src/pages/**\"])"),
+  includeNeedsConfirmation: z.boolean().optional().default(false).describe("needs_confirmation(확인요청) finding도 Task로 변환할지 여부"),
 });
 
 export const TaskCompleteInputSchema = z.object({
   id: z.string().min(1).describe("Task ID"),
   verification_note: z.string().optional().describe("검증 노트 (어떻게 수정했는지)"),
+  requirePassing: z.boolean().optional().default(false).describe("true면 검증 명령(.review/verify.yml)의 마지막 실행이 통과해야 완료 (실행 기록이 없어도 거부)"),
+  expected_revision: ExpectedRevisionSchema,
+});
+
+export const TaskVerifyInputSchema = z.object({
+  id: z.string().min(1).describe("Task ID"),
+  maxDiffChars: z.number().int().min(1000).max(100000).optional().default(20000).describe("프롬프트에 포함할 diff 최대 글자 수"),
+  runCommands: z.boolean().optional().default(true).describe("프로젝트 검증 명령(.review/verify.yml) 실행 여부"),
 });
 
 export const TaskUpdateStatusInputSchema = z.object({
   id: z.string().min(1).describe("Task ID"),
-  status: TaskStatusSchema.describe("변경할 상태"),
+  status: TaskStatusSchema.describe("변경할 상태 (completed는 task.complete 사용)"),
+  reason: z.string().optional().describe("변경 사유 (완료/취소된 Task를 pending으로 되돌릴 때 필수)"),
+  expected_revision: ExpectedRevisionSchema,
+});
+
+export const TaskReopenInputSchema = z.object({
+  id: z.string().min(1).describe("Task ID"),
+  reason: z.string().min(1).describe("다시 여는 사유 (상태 이력에 기록)"),
+  expected_revision: ExpectedRevisionSchema,
+});
+
+export const TaskApplyPatchInputSchema = z.object({
+  id: z.string().min(1).describe("Task ID"),
+  apply: z.boolean().optional().default(false).describe("true면 드라이런 통과 시 작업 트리에 실제 적용 (기본값: 드라이런만)"),
+  repoPath: z.string().optional().describe("로컬 git 저장소 경로 (미지정시 PROJECT_ROOT 사용)"),
+});
+
+export const TaskExecuteInputSchema = z.object({
+  id: z.string().min(1).describe("Task ID"),
+  force: z.boolean().optional().default(false).describe("true면 선행 Task가 끝나지 않았어도 경고만 하고 실행"),
+  repoPath: z.string().optional().describe("로컬 git 저장소 경로 (미지정시 PROJECT_ROOT 사용, 실행 기준 기록용)"),
+});
+
+export const TaskLinkInputSchema = z.object({
+  id: z.string().min(1).describe("Task ID"),
+  depends_on: z.array(z.string().min(1)).optional().default([]).describe("이 Task보다 먼저 끝나야 하는 Task ID 목록"),
+  blocks: z.array(z.string().min(1)).optional().default([]).describe("이 Task가 끝나야 시작할 수 있는 Task ID 목록"),
 });